@@ -1,14 +1,556 @@
-import { CrowdfundingState } from '../src/types'
+import { Random, Utils } from '@bsv/sdk'
+import { Campaign, Contribution, Investor, RewardTier, TokenTransfer } from '../src/types'
+import { TokenPayload } from './token'
 
-// Crowdfunding state - will be initialized when wallet loads
-export let crowdfunding: CrowdfundingState = {
-  goal: 100,
-  raised: 0,
-  investors: [],
-  isComplete: false,
-  completionTxid: undefined
+export interface NewCampaign {
+  title: string
+  description: string
+  goal: number
+  deadline?: number
+  // Smallest single investment, in satoshis
+  minInvestment?: number
+  // Most one investor can put in overall, in satoshis
+  maxInvestment?: number
+  // Most the campaign raises in total, in satoshis. Defaults to the goal.
+  hardCap?: number
+  tiers?: RewardTier[]
 }
 
-export function setCrowdfundingState(state: CrowdfundingState) {
-  crowdfunding = state
+// Operator edit of a campaign. Optional settings can be cleared with null.
+export interface CampaignUpdate {
+  title?: string
+  description?: string
+  goal?: number
+  deadline?: number | null
+  minInvestment?: number | null
+  maxInvestment?: number | null
+  hardCap?: number | null
+  tiers?: RewardTier[] | null
+}
+
+// Statuses an operator can move a campaign to
+export type AdminCampaignStatus = 'active' | 'paused' | 'closed'
+
+// Campaign seeded when no campaigns have been stored yet
+export const DEFAULT_CAMPAIGN: NewCampaign = {
+  title: 'BSV Crowdfunding Demo',
+  description: 'Pay with BSV Wallet and receive PushDrop tokens',
+  goal: 100
+}
+
+export function createCampaign(input: NewCampaign, id = Utils.toHex(Random(8))): Campaign {
+  return {
+    id,
+    title: input.title,
+    description: input.description,
+    goal: input.goal,
+    raised: 0,
+    investors: [],
+    status: 'active',
+    deadline: input.deadline,
+    minInvestment: input.minInvestment,
+    maxInvestment: input.maxInvestment,
+    hardCap: input.hardCap,
+    tiers: input.tiers,
+    isComplete: false,
+    completionTxid: undefined,
+    createdAt: Date.now()
+  }
+}
+
+// Accepts a deadline as Unix milliseconds or an ISO date string
+export function parseDeadline(value: unknown): number | undefined {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && value !== '') return Date.parse(value)
+  return undefined
+}
+
+function isSatoshis(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 1
+}
+
+function validateDeadline(value: unknown): string | null {
+  const deadline = parseDeadline(value)
+  if (value !== undefined && value !== '' && (deadline === undefined || !Number.isFinite(deadline))) {
+    return 'Invalid deadline parameter'
+  }
+  if (deadline !== undefined && deadline <= Date.now()) {
+    return 'Deadline must be in the future'
+  }
+  return null
+}
+
+function validateLimits(goal: number, minInvestment?: number, maxInvestment?: number, hardCap?: number): string | null {
+  if (minInvestment !== undefined && maxInvestment !== undefined && minInvestment > maxInvestment) {
+    return 'minInvestment cannot exceed maxInvestment'
+  }
+  if (hardCap !== undefined && hardCap < goal) {
+    return 'hardCap cannot be below the goal'
+  }
+  return null
+}
+
+// Validate reward tiers, returning an error message if invalid
+function validateTiers(tiers: unknown): string | null {
+  if (!Array.isArray(tiers)) {
+    return 'tiers must be an array'
+  }
+  const names = new Set<string>()
+  for (const tier of tiers) {
+    if (!tier || typeof tier.name !== 'string' || tier.name.trim() === '') {
+      return 'Every tier needs a name'
+    }
+    if (names.has(tier.name.trim())) {
+      return `Duplicate tier name "${tier.name.trim()}"`
+    }
+    names.add(tier.name.trim())
+    if (!isSatoshis(tier.minAmount)) {
+      return `Tier "${tier.name}" minAmount must be a positive integer number of satoshis`
+    }
+    if (tier.perk !== undefined && typeof tier.perk !== 'string') {
+      return `Tier "${tier.name}" perk must be a string`
+    }
+    if (tier.quantity !== undefined && !isSatoshis(tier.quantity)) {
+      return `Tier "${tier.name}" quantity must be a positive integer`
+    }
+  }
+  return null
+}
+
+// Tiers from a validated request body, with names and perks trimmed
+export function parseTiers(tiers: any[]): RewardTier[] {
+  return tiers.map(tier => ({
+    name: tier.name.trim(),
+    minAmount: tier.minAmount,
+    perk: tier.perk?.trim() ?? '',
+    quantity: tier.quantity
+  }))
+}
+
+// Validate a campaign creation request body, returning an error message if invalid
+export function validateNewCampaign(body: any): string | null {
+  if (!body || typeof body.title !== 'string' || body.title.trim() === '') {
+    return 'Missing or invalid title parameter'
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    return 'Invalid description parameter'
+  }
+  if (!isSatoshis(body.goal)) {
+    return 'Goal must be a positive integer number of satoshis'
+  }
+  for (const limit of ['minInvestment', 'maxInvestment', 'hardCap']) {
+    if (body[limit] !== undefined && !isSatoshis(body[limit])) {
+      return `${limit} must be a positive integer number of satoshis`
+    }
+  }
+  if (body.tiers !== undefined) {
+    const tiersError = validateTiers(body.tiers)
+    if (tiersError) return tiersError
+  }
+  return validateDeadline(body.deadline) ??
+    validateLimits(body.goal, body.minInvestment, body.maxInvestment, body.hardCap)
+}
+
+// Validate a campaign edit request body, returning an error message if invalid
+export function validateCampaignUpdate(body: any): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'Missing campaign update'
+  }
+  const fields = ['title', 'description', 'goal', 'deadline', 'minInvestment', 'maxInvestment', 'hardCap', 'tiers']
+  if (!fields.some(field => body[field] !== undefined)) {
+    return `Nothing to update. Editable fields: ${fields.join(', ')}`
+  }
+  if (body.title !== undefined && (typeof body.title !== 'string' || body.title.trim() === '')) {
+    return 'Invalid title parameter'
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    return 'Invalid description parameter'
+  }
+  if (body.goal !== undefined && !isSatoshis(body.goal)) {
+    return 'Goal must be a positive integer number of satoshis'
+  }
+  for (const limit of ['minInvestment', 'maxInvestment', 'hardCap']) {
+    if (body[limit] !== undefined && body[limit] !== null && !isSatoshis(body[limit])) {
+      return `${limit} must be a positive integer number of satoshis or null`
+    }
+  }
+  if (body.tiers !== undefined && body.tiers !== null) {
+    const tiersError = validateTiers(body.tiers)
+    if (tiersError) return tiersError
+  }
+  return body.deadline === null ? null : validateDeadline(body.deadline)
+}
+
+// Apply a validated edit. Funding terms are fixed once a campaign has ended.
+// Returns an error message if the edit is not allowed.
+export function applyCampaignUpdate(campaign: Campaign, update: CampaignUpdate): string | null {
+  const changesTerms = [update.goal, update.deadline, update.minInvestment, update.maxInvestment, update.hardCap]
+    .some(value => value !== undefined)
+  if (changesTerms && (hasEnded(campaign) || campaign.isComplete)) {
+    return 'Funding terms cannot change once a campaign has ended'
+  }
+
+  const minInvestment = update.minInvestment === undefined ? campaign.minInvestment : update.minInvestment ?? undefined
+  const maxInvestment = update.maxInvestment === undefined ? campaign.maxInvestment : update.maxInvestment ?? undefined
+  const hardCap = update.hardCap === undefined ? campaign.hardCap : update.hardCap ?? undefined
+  const limitsError = validateLimits(update.goal ?? campaign.goal, minInvestment, maxInvestment, hardCap)
+  if (limitsError) {
+    return limitsError
+  }
+
+  // Investors' reserved tiers refer to the tiers they invested under
+  if (update.tiers !== undefined && campaign.investors.length > 0) {
+    return 'Reward tiers cannot change once the campaign has investors'
+  }
+
+  if (update.title !== undefined) campaign.title = update.title.trim()
+  if (update.description !== undefined) campaign.description = update.description.trim()
+  if (update.goal !== undefined) campaign.goal = update.goal
+  if (update.deadline !== undefined) campaign.deadline = update.deadline ?? undefined
+  campaign.minInvestment = minInvestment
+  campaign.maxInvestment = maxInvestment
+  campaign.hardCap = hardCap
+  if (update.tiers !== undefined) campaign.tiers = update.tiers ?? undefined
+  return null
+}
+
+// Failed and closed campaigns are final
+export function hasEnded(campaign: Campaign): boolean {
+  return campaign.status === 'failed' || campaign.status === 'closed'
+}
+
+// Pause, resume or close a campaign. Closing ends it early: below goal it fails and
+// investors become eligible for refunds, otherwise it stops taking investments and
+// tokens can still be claimed. Returns an error message if the change is not allowed.
+export function setCampaignStatus(campaign: Campaign, status: AdminCampaignStatus, now = Date.now()): string | null {
+  if (hasEnded(campaign)) {
+    return `Campaign is ${campaign.status}`
+  }
+
+  if (status === 'paused') {
+    if (campaign.status === 'paused') return 'Campaign is already paused'
+    campaign.status = 'paused'
+  } else if (status === 'active') {
+    if (campaign.status === 'active') return 'Campaign is already active'
+    // A deadline that passed while paused takes effect on resume
+    campaign.status = 'active'
+    applyDeadline(campaign, now)
+  } else if (campaign.raised < campaign.goal) {
+    failCampaign(campaign, now)
+  } else {
+    campaign.status = 'closed'
+  }
+  return null
+}
+
+// Most the campaign can raise: its hard cap, or its goal when no cap is set
+export function fundingCap(campaign: Campaign): number {
+  return campaign.hardCap ?? campaign.goal
+}
+
+// Active campaigns take investments until their deadline, or until their tokens have
+// been distributed
+export function isTakingInvestments(campaign: Campaign, now = Date.now()): boolean {
+  return campaign.status === 'active' && !campaign.isComplete && !isExpired(campaign, now)
+}
+
+// Still raising: taking investments, or taking them again once a pause ends, with room
+// left under the funding cap
+export function isRaising(campaign: Campaign, now = Date.now()): boolean {
+  return (campaign.status === 'active' || campaign.status === 'paused') &&
+    !campaign.isComplete && !isExpired(campaign, now) && campaign.raised < fundingCap(campaign)
+}
+
+// Tokens are issued once the goal is reached and the campaign has stopped raising, so
+// every investor's amount and share of the raise are final when minted
+export function claimsOpen(campaign: Campaign, now = Date.now()): boolean {
+  return campaign.status !== 'failed' && campaign.raised >= campaign.goal && !isRaising(campaign, now)
+}
+
+// Satoshis the investor can still put in before reaching the funding cap or their
+// per-investor maximum. None once the campaign stops taking investments, so a payment
+// that arrives after it was paused, closed, completed or expired is paid back in full.
+export function investmentRoom(campaign: Campaign, investorKey: string): number {
+  if (!isTakingInvestments(campaign)) return 0
+  const invested = campaign.investors.find(inv => inv.identityKey === investorKey)?.amount ?? 0
+  const investorRoom = campaign.maxInvestment === undefined ? Infinity : campaign.maxInvestment - invested
+  return Math.max(0, Math.min(fundingCap(campaign) - campaign.raised, investorRoom))
+}
+
+// Allowed amount of the investor's next investment. The last investment before the
+// cap may be smaller than the campaign's minimum.
+export function investmentRange(campaign: Campaign, investorKey: string): { min: number, max: number } {
+  const max = investmentRoom(campaign, investorKey)
+  return { min: Math.min(campaign.minInvestment ?? 1, max), max }
+}
+
+// Limit the amount breaks, or null if it is within the investor's allowed range
+export function investmentLimitError(campaign: Campaign, investorKey: string, amount: number): string | null {
+  if (!isTakingInvestments(campaign)) {
+    return 'Campaign is not taking investments'
+  }
+  if (campaign.raised >= fundingCap(campaign)) {
+    return 'Campaign has reached its funding cap'
+  }
+  const { min, max } = investmentRange(campaign, investorKey)
+  if (max === 0) {
+    return `Maximum investment is ${campaign.maxInvestment} sats per investor`
+  }
+  if (amount < min) {
+    return `Minimum investment is ${min} sats`
+  }
+  if (amount > max) {
+    return `Maximum investment is ${max} sats`
+  }
+  return null
+}
+
+export function isExpired(campaign: Campaign, now = Date.now()): boolean {
+  return campaign.deadline !== undefined && now >= campaign.deadline
+}
+
+export function missedDeadline(campaign: Campaign, now = Date.now()): boolean {
+  return campaign.status === 'active' && isExpired(campaign, now) && campaign.raised < campaign.goal
+}
+
+// Mark a campaign failed and make its investors eligible for refunds
+function failCampaign(campaign: Campaign, now: number) {
+  campaign.status = 'failed'
+  for (const investor of campaign.investors) {
+    if (investor.amount === 0) continue
+    investor.refund ??= { status: 'pending', amount: investor.amount, timestamp: now }
+  }
+}
+
+// All-or-nothing: an active campaign that reaches its deadline below goal fails,
+// and its investors become eligible for refunds. Paused campaigns wait until they are
+// resumed. Returns true if the campaign changed.
+export function applyDeadline(campaign: Campaign, now = Date.now()): boolean {
+  if (!missedDeadline(campaign, now)) {
+    return false
+  }
+
+  failCampaign(campaign, now)
+  return true
+}
+
+export function findContribution(campaign: Campaign, txid: string) {
+  for (const investor of campaign.investors) {
+    const contribution = investor.contributions.find(c => c.txid === txid)
+    if (contribution) return { investor, contribution }
+  }
+  return undefined
+}
+
+// Investors holding each tier
+function tierClaims(campaign: Campaign, tierName: string, except?: Investor): number {
+  return campaign.investors.filter(inv => inv !== except && inv.tier === tierName).length
+}
+
+// Reserve the best tier the investor's total qualifies for that still has room.
+// Tiers only ever go up, since an investor's total never decreases.
+export function assignTier(campaign: Campaign, investor: Investor) {
+  const current = tierOf(campaign, investor)
+  const best = (campaign.tiers ?? [])
+    .filter(tier =>
+      tier.minAmount <= investor.amount &&
+      (tier.quantity === undefined || tierClaims(campaign, tier.name, investor) < tier.quantity)
+    )
+    .sort((a, b) => b.minAmount - a.minAmount)[0]
+
+  if (best && (!current || best.minAmount > current.minAmount)) {
+    investor.tier = best.name
+  }
+}
+
+export function tierOf(campaign: Campaign, investor: Investor): RewardTier | undefined {
+  return investor.tier === undefined ? undefined : campaign.tiers?.find(tier => tier.name === investor.tier)
+}
+
+// Tiers with how many investors hold each and how many are left
+export function tierView(campaign: Campaign) {
+  return (campaign.tiers ?? []).map(tier => {
+    const claimed = tierClaims(campaign, tier.name)
+    return {
+      ...tier,
+      claimed,
+      remaining: tier.quantity === undefined ? undefined : Math.max(0, tier.quantity - claimed)
+    }
+  })
+}
+
+// Add an accepted payment to the investor's record and the campaign total,
+// upgrading the investor's reward tier if the new total reaches a higher one
+export function recordContribution(campaign: Campaign, identityKey: string, contribution: Contribution): Investor {
+  let investor = campaign.investors.find(inv => inv.identityKey === identityKey)
+
+  if (investor) {
+    investor.amount += contribution.amount
+    investor.timestamp = contribution.timestamp
+    investor.contributions.push(contribution)
+  } else {
+    investor = {
+      identityKey,
+      amount: contribution.amount,
+      timestamp: contribution.timestamp,
+      contributions: [contribution]
+    }
+    campaign.investors.push(investor)
+  }
+
+  campaign.raised += contribution.amount
+  assignTier(campaign, investor)
+  return investor
+}
+
+// Token contents for an investor, with their share of the campaign's final raise
+export function tokenPayload(campaign: Campaign, investor: Investor, issuerKey: string, issuedAt = Date.now()): TokenPayload {
+  const tier = tierOf(campaign, investor)
+  return {
+    campaignId: campaign.id,
+    amount: investor.amount,
+    share: investor.amount / campaign.raised,
+    issuedAt,
+    issuerKey,
+    tier: tier && { name: tier.name, perk: tier.perk }
+  }
+}
+
+// Identity currently holding an investor's stake
+export function holderOf(investor: Investor): string {
+  return investor.token?.holderKey ?? investor.identityKey
+}
+
+// Where an investor stands on getting their token, or their money back
+export type ClaimState = 'pending' | 'claimable' | 'claimed' | 'transferred' | 'refundable' | 'refunded'
+
+export function claimState(campaign: Campaign, investor: Investor): ClaimState {
+  // Nothing left credited once a payment was entirely paid back as excess
+  if (investor.refund?.status === 'sent' || investor.amount === 0) return 'refunded'
+  if (campaign.status === 'failed') return 'refundable'
+  if (investor.redeemed) return investor.token?.holderKey ? 'transferred' : 'claimed'
+  return claimsOpen(campaign) ? 'claimable' : 'pending'
+}
+
+// Ended, with every investor holding their token or paid back: the backend wallet has
+// nothing left to do for the campaign. Settled campaigns are archived on a key rotation.
+export function isSettled(campaign: Campaign): boolean {
+  return hasEnded(campaign) && campaign.investors.every(investor =>
+    ['claimed', 'transferred', 'refunded'].includes(claimState(campaign, investor))
+  )
+}
+
+// Investor whose token currently sits at the given output
+export function findTokenHolding(campaign: Campaign, txid: string, outputIndex: number): Investor | undefined {
+  return campaign.investors.find(
+    inv => inv.token?.txid === txid && inv.token.outputIndex === outputIndex
+  )
+}
+
+// Move an investor's token to the transfer's output and recipient
+export function recordTransfer(campaign: Campaign, investor: Investor, transfer: TokenTransfer) {
+  investor.token = {
+    txid: transfer.txid,
+    outputIndex: transfer.outputIndex,
+    holderKey: transfer.toKey === investor.identityKey ? undefined : transfer.toKey
+  }
+  campaign.transfers ??= []
+  campaign.transfers.push(transfer)
+}
+
+// Current owners of the campaign's stakes, by holder identity
+export function capTable(campaign: Campaign) {
+  const holdings = new Map<string, number>()
+  for (const investor of campaign.investors) {
+    if (investor.amount === 0) continue
+    const holder = holderOf(investor)
+    holdings.set(holder, (holdings.get(holder) ?? 0) + investor.amount)
+  }
+  return Array.from(holdings, ([holderKey, amount]) => ({
+    holderKey,
+    amount,
+    share: campaign.raised > 0 ? amount / campaign.raised : 0
+  }))
+}
+
+export function contributionView(contribution: Contribution) {
+  return {
+    amount: contribution.amount,
+    timestamp: contribution.timestamp,
+    txid: contribution.txid,
+    excessRefund: contribution.excessRefund && {
+      status: contribution.excessRefund.status,
+      amount: contribution.excessRefund.amount,
+      txid: contribution.excessRefund.txid
+    }
+  }
+}
+
+// Full view of one investor's record, including derivation data for each payment
+export function investorView(investor: Investor) {
+  return {
+    identityKey: investor.identityKey,
+    amount: investor.amount,
+    timestamp: investor.timestamp,
+    redeemed: investor.redeemed === true,
+    tier: investor.tier,
+    token: investor.token,
+    holderKey: holderOf(investor),
+    refund: investor.refund && {
+      status: investor.refund.status,
+      amount: investor.refund.amount,
+      txid: investor.refund.txid,
+      timestamp: investor.refund.timestamp
+    },
+    contributions: investor.contributions.map(contribution => ({
+      ...contributionView(contribution),
+      derivationPrefix: contribution.derivationPrefix,
+      derivationSuffix: contribution.derivationSuffix
+    }))
+  }
+}
+
+// Identity key as shown publicly
+export function truncateKey(identityKey: string): string {
+  return identityKey.slice(0, 16) + '...'
+}
+
+// Public view of a campaign, with investor keys truncated
+export function campaignStatus(campaign: Campaign) {
+  return {
+    id: campaign.id,
+    title: campaign.title,
+    description: campaign.description,
+    goal: campaign.goal,
+    raised: campaign.raised,
+    investorCount: campaign.investors.length,
+    status: campaign.status,
+    deadline: campaign.deadline,
+    minInvestment: campaign.minInvestment,
+    maxInvestment: campaign.maxInvestment,
+    hardCap: campaign.hardCap,
+    fundingCap: fundingCap(campaign),
+    tiers: tierView(campaign),
+    isComplete: campaign.isComplete,
+    completionTxid: campaign.completionTxid,
+    distributionTxid: campaign.distribution?.txid,
+    claimsOpen: claimsOpen(campaign),
+    // Issuers of tokens minted before a key rotation
+    priorIssuerKeys: campaign.priorIssuerKeys ?? [],
+    percentFunded: Math.round((campaign.raised / campaign.goal) * 100),
+    createdAt: campaign.createdAt,
+    investors: campaign.investors.map(inv => ({
+      identityKey: truncateKey(inv.identityKey),
+      amount: inv.amount,
+      timestamp: inv.timestamp,
+      tier: inv.tier,
+      refundStatus: inv.refund?.status,
+      refundTxid: inv.refund?.txid,
+      contributions: inv.contributions.map(contributionView)
+    })),
+    capTable: capTable(campaign).map(holding => ({
+      ...holding,
+      holderKey: truncateKey(holding.holderKey)
+    }))
+  }
 }
@@ -0,0 +1,199 @@
+import { Campaign, Contribution, Refund, TokenDistribution, TokenTransfer } from '../src/types'
+import {
+  AdminCampaignStatus,
+  applyCampaignUpdate,
+  applyDeadline,
+  campaignStatus,
+  CampaignUpdate,
+  contributionView,
+  recordContribution,
+  recordTransfer,
+  setCampaignStatus,
+  truncateKey
+} from './crowdfunding'
+
+// Every change to a campaign, as recorded in the append-only event log.
+// A campaign's state is the result of replaying its changes in order.
+export type CampaignChange =
+  // First change of every campaign. Campaigns stored before the log existed start
+  // with their state at the time they were imported.
+  | { type: 'created', campaign: Campaign }
+  | { type: 'edited', update: CampaignUpdate }
+  | { type: 'status-changed', status: AdminCampaignStatus }
+  // The deadline passed below goal
+  | { type: 'expired' }
+  | { type: 'invested', identityKey: string, contribution: Contribution }
+  // Token minted for one investor who claimed it
+  | { type: 'claimed', identityKey: string, txid: string, outputIndex: number }
+  // Tokens minted in one transaction, output i for holders[i]
+  | { type: 'distributed', distribution: TokenDistribution, holders: string[] }
+  | { type: 'completed', completionTxid: string }
+  // Refund sent to, or failed for, an investor of a failed campaign
+  | { type: 'refunded', identityKey: string, refund: Refund }
+  | { type: 'transferred', transfer: TokenTransfer }
+  | { type: 'transfer-acknowledged', txid: string }
+  // State reconstructed from the backend wallet's history, replacing the campaign's
+  | { type: 'rebuilt', campaign: Campaign }
+  // Carried over to a new backend key, still running, when the key was rotated
+  | { type: 'issuer-rotated', previousIssuerKey: string, issuerKey: string }
+
+export type NewLogEvent = CampaignChange & {
+  campaignId: string
+  // Unix milliseconds
+  timestamp: number
+}
+
+// Logged events are numbered in the order they were written, across all campaigns
+export type LogEvent = NewLogEvent & {
+  sequence: number
+}
+
+export interface EventQuery {
+  campaignId?: string
+  // Only events with a higher sequence number
+  after?: number
+  limit?: number
+}
+
+// First event of a new campaign
+export function creationEvent(campaign: Campaign, timestamp = campaign.createdAt): NewLogEvent {
+  return { type: 'created', campaign: structuredClone(campaign), campaignId: campaign.id, timestamp }
+}
+
+function findInvestor(campaign: Campaign, identityKey: string) {
+  const investor = campaign.investors.find(inv => inv.identityKey === identityKey)
+  if (!investor) {
+    throw new Error(`Investor ${identityKey} not found in campaign ${campaign.id}`)
+  }
+  return investor
+}
+
+// Apply a change to a campaign, the same way when it is first made and when it is
+// replayed. Returns an error message, leaving the campaign untouched, if the change
+// is not allowed in the campaign's current state.
+export function applyChange(campaign: Campaign, change: CampaignChange, timestamp: number): string | null {
+  switch (change.type) {
+    case 'created':
+      return 'Campaign already exists'
+    case 'edited':
+      return applyCampaignUpdate(campaign, change.update)
+    case 'status-changed':
+      return setCampaignStatus(campaign, change.status, timestamp)
+    case 'expired':
+      return applyDeadline(campaign, timestamp) ? null : 'Campaign has not missed its deadline'
+    case 'invested':
+      recordContribution(campaign, change.identityKey, change.contribution)
+      return null
+    case 'claimed': {
+      const investor = findInvestor(campaign, change.identityKey)
+      investor.redeemed = true
+      investor.token = { txid: change.txid, outputIndex: change.outputIndex }
+      return null
+    }
+    case 'distributed':
+      change.holders.forEach((identityKey, outputIndex) => {
+        const investor = findInvestor(campaign, identityKey)
+        investor.redeemed = true
+        investor.token = { txid: change.distribution.txid, outputIndex }
+      })
+      campaign.distribution = change.distribution
+      return null
+    case 'completed':
+      campaign.isComplete = true
+      campaign.completionTxid = change.completionTxid
+      return null
+    case 'refunded':
+      findInvestor(campaign, change.identityKey).refund = change.refund
+      return null
+    case 'transferred':
+      recordTransfer(campaign, findInvestor(campaign, change.transfer.investorKey), change.transfer)
+      return null
+    case 'transfer-acknowledged': {
+      const transfer = campaign.transfers?.find(t => t.txid === change.txid)
+      if (!transfer) return 'Transfer not found'
+      transfer.acknowledged = true
+      return null
+    }
+    case 'rebuilt':
+      if (change.campaign.id !== campaign.id) return 'Rebuilt state is for another campaign'
+      for (const key of Object.keys(campaign)) {
+        delete campaign[key as keyof Campaign]
+      }
+      Object.assign(campaign, change.campaign)
+      return null
+    case 'issuer-rotated':
+      campaign.priorIssuerKeys = [...(campaign.priorIssuerKeys ?? []), change.previousIssuerKey]
+      return null
+  }
+}
+
+// Rebuild one campaign from its logged events, oldest first
+export function replayCampaign(events: LogEvent[]): Campaign | undefined {
+  const [first, ...rest] = events
+  if (!first) return undefined
+  if (first.type !== 'created') {
+    throw new Error(`Event log of campaign ${first.campaignId} does not start with its creation`)
+  }
+
+  const campaign = structuredClone(first.campaign)
+  for (const event of rest) {
+    const error = applyChange(campaign, structuredClone(event), event.timestamp)
+    if (error) {
+      throw new Error(`Cannot replay event ${event.sequence} (${event.type}) of campaign ${event.campaignId}: ${error}`)
+    }
+  }
+  return campaign
+}
+
+// Rebuild every campaign in a log, in the order they were created
+export function replayCampaigns(events: LogEvent[]): Campaign[] {
+  const byCampaign = new Map<string, LogEvent[]>()
+  for (const event of events) {
+    const campaignEvents = byCampaign.get(event.campaignId) ?? []
+    campaignEvents.push(event)
+    byCampaign.set(event.campaignId, campaignEvents)
+  }
+  return [...byCampaign.values()].map(campaignEvents => replayCampaign(campaignEvents)!)
+}
+
+// Public view of a logged event, with no more detail than campaignStatus: investor keys
+// truncated, and no payment derivation data or transactions
+export function eventView(event: LogEvent) {
+  const { sequence, campaignId, timestamp, type } = event
+  const logged = { sequence, campaignId, timestamp, type }
+  switch (event.type) {
+    case 'created':
+    case 'rebuilt':
+      return { ...logged, campaign: campaignStatus(event.campaign) }
+    case 'invested':
+      return {
+        ...logged,
+        identityKey: truncateKey(event.identityKey),
+        contribution: contributionView(event.contribution)
+      }
+    case 'claimed':
+      return { ...logged, identityKey: truncateKey(event.identityKey), txid: event.txid, outputIndex: event.outputIndex }
+    case 'distributed':
+      return { ...logged, txid: event.distribution.txid, holders: event.holders.map(truncateKey) }
+    case 'refunded':
+      return {
+        ...logged,
+        identityKey: truncateKey(event.identityKey),
+        refund: { status: event.refund.status, amount: event.refund.amount, txid: event.refund.txid }
+      }
+    case 'transferred':
+      return {
+        ...logged,
+        transfer: {
+          investorKey: truncateKey(event.transfer.investorKey),
+          fromKey: truncateKey(event.transfer.fromKey),
+          toKey: truncateKey(event.transfer.toKey),
+          txid: event.transfer.txid,
+          outputIndex: event.transfer.outputIndex
+        }
+      }
+    default:
+      // The remaining changes carry nothing private
+      return event
+  }
+}
@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events'
+import { campaignStatus, truncateKey } from './crowdfunding'
+import { deliverWebhooks } from './webhooks'
+
+export type CampaignEvent =
+  // The campaign's full status after any change
+  | { type: 'progress', campaign: ReturnType<typeof campaignStatus> }
+  // A contribution was recorded
+  | { type: 'investor', identityKey: string, amount: number, totalAmount: number, isNew: boolean, timestamp: number }
+  // The campaign reached its goal
+  | { type: 'funded', raised: number, goal: number }
+  // Tokens were issued, by a claim or a batch distribution
+  | { type: 'tokens', txid: string, holders: string[] }
+  // Satoshis were paid back, to an investor of a failed campaign or as the excess of a payment
+  | { type: 'refund', identityKey: string, amount: number, txid: string, reason: 'failed' | 'excess' }
+  // Every investor holds their token
+  | { type: 'complete', completionTxid?: string }
+
+// Campaign events are published in-process. Like the campaign store, the emitter is
+// shared through globalThis so that every API route reaches the same subscribers.
+const shared = globalThis as typeof globalThis & {
+  campaignEvents?: EventEmitter
+}
+
+function getEmitter(): EventEmitter {
+  if (!shared.campaignEvents) {
+    shared.campaignEvents = new EventEmitter()
+    // One listener per open event stream
+    shared.campaignEvents.setMaxListeners(0)
+  }
+  return shared.campaignEvents
+}
+
+// Public view of an event, for the live stream. Like the status response, it carries
+// truncated identity keys; webhooks, which are signed for operators, get the full event.
+export function campaignEventView(event: CampaignEvent) {
+  switch (event.type) {
+    case 'investor':
+    case 'refund':
+      return { ...event, identityKey: truncateKey(event.identityKey) }
+    case 'tokens':
+      return { ...event, holders: event.holders.map(truncateKey) }
+    default:
+      return event
+  }
+}
+
+// Sends the event to the campaign's subscribers and to the webhooks subscribed to its type
+export function publishCampaignEvent(campaignId: string, event: CampaignEvent): void {
+  getEmitter().emit(campaignId, event)
+  deliverWebhooks(campaignId, event)
+}
+
+// Returns a function that removes the listener
+export function subscribeToCampaign(
+  campaignId: string,
+  listener: (event: CampaignEvent) => void
+): () => void {
+  const emitter = getEmitter()
+  emitter.on(campaignId, listener)
+  return () => {
+    emitter.off(campaignId, listener)
+  }
+}
@@ -0,0 +1,119 @@
+import { Campaign } from '../src/types'
+import { holderOf } from './crowdfunding'
+
+export type ExportFormat = 'csv' | 'json'
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json']
+
+function outpoint(output?: { txid: string, outputIndex: number }): string | undefined {
+  return output && `${output.txid}.${output.outputIndex}`
+}
+
+// Investor's percentage of everything the campaign raised
+function ownershipPercent(campaign: Campaign, amount: number): number {
+  return campaign.raised > 0 ? (amount / campaign.raised) * 100 : 0
+}
+
+// Full investor records of one campaign for operators: unabridged identity keys,
+// every contribution, ownership, token outpoints and refunds
+export function investorExport(campaign: Campaign, exportedAt = Date.now()) {
+  return {
+    exportedAt,
+    campaign: {
+      id: campaign.id,
+      title: campaign.title,
+      goal: campaign.goal,
+      raised: campaign.raised,
+      status: campaign.status,
+      isComplete: campaign.isComplete,
+      completionTxid: campaign.completionTxid,
+      distributionTxid: campaign.distribution?.txid
+    },
+    investors: campaign.investors.map(investor => ({
+      identityKey: investor.identityKey,
+      holderKey: holderOf(investor),
+      amount: investor.amount,
+      ownershipPercent: ownershipPercent(campaign, investor.amount),
+      tier: investor.tier,
+      redeemed: investor.redeemed === true,
+      tokenOutpoint: outpoint(investor.token),
+      refund: investor.refund && {
+        status: investor.refund.status,
+        amount: investor.refund.amount,
+        txid: investor.refund.txid
+      },
+      contributions: investor.contributions.map(contribution => ({
+        txid: contribution.txid,
+        amount: contribution.amount,
+        timestamp: contribution.timestamp,
+        excessRefund: contribution.excessRefund && {
+          status: contribution.excessRefund.status,
+          amount: contribution.excessRefund.amount,
+          txid: contribution.excessRefund.txid
+        }
+      }))
+    }))
+  }
+}
+
+const CSV_COLUMNS = [
+  'campaign_id',
+  'identity_key',
+  'holder_key',
+  'investor_amount',
+  'ownership_percent',
+  'tier',
+  'redeemed',
+  'token_outpoint',
+  'refund_status',
+  'refund_amount',
+  'refund_txid',
+  'contribution_txid',
+  'contribution_amount',
+  'contribution_time',
+  'excess_refund_status',
+  'excess_refund_amount',
+  'excess_refund_txid'
+]
+
+function csvField(value: string | number | boolean | undefined): string {
+  if (value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One row per contribution, each repeating its investor's totals. Investors without
+// contribution records get a single row. Times are ISO 8601 in UTC.
+export function investorCsv(campaign: Campaign): string {
+  const { investors } = investorExport(campaign)
+  const rows = investors.flatMap(investor => {
+    const investorFields = [
+      campaign.id,
+      investor.identityKey,
+      investor.holderKey,
+      investor.amount,
+      investor.ownershipPercent,
+      investor.tier,
+      investor.redeemed,
+      investor.tokenOutpoint,
+      investor.refund?.status,
+      investor.refund?.amount,
+      investor.refund?.txid
+    ]
+    if (investor.contributions.length === 0) {
+      return [investorFields]
+    }
+    return investor.contributions.map(contribution => [
+      ...investorFields,
+      contribution.txid,
+      contribution.amount,
+      new Date(contribution.timestamp).toISOString(),
+      contribution.excessRefund?.status,
+      contribution.excessRefund?.amount,
+      contribution.excessRefund?.txid
+    ])
+  })
+
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(csvField).join(','))
+    .join('\r\n') + '\r\n'
+}
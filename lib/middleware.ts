@@ -3,6 +3,7 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { createAuthMiddleware } from '@bsv/auth-express-middleware'
 import { createPaymentMiddleware } from '@bsv/payment-express-middleware'
 import { Request, Response, NextFunction } from 'express'
+import { InternalizeActionArgs, P2PKH, PublicKey, Transaction, Utils, WalletInterface, WalletProtocol } from '@bsv/sdk'
 
 // Extended Next.js API Request with auth and payment data
 export interface PaymentRequest extends NextApiRequest {
@@ -18,42 +19,108 @@ export interface PaymentRequest extends NextApiRequest {
   }
 }
 
-// Price calculator for payment middleware
-// For investments, we need to extract the amount from the transaction
-// Since we don't have access to it yet, we return 1 sat minimum to trigger payment flow
-// The actual amount validation happens after internalization
-export function calculateInvestmentPrice(req: any): number {
-  // Try to extract amount from payment header if it exists
+// Contents of the x-bsv-payment request header
+export interface PaymentHeader {
+  derivationPrefix: string
+  derivationSuffix: string
+  transaction: string
+  senderIdentityKey?: string
+}
+
+export function parsePaymentHeader(req: NextApiRequest): PaymentHeader | undefined {
   const paymentHeader = req.headers['x-bsv-payment']
-  if (paymentHeader && typeof paymentHeader === 'string') {
-    try {
-      const paymentData = JSON.parse(paymentHeader)
-      // If we have the amount in a custom field, use it
-      if (paymentData.amount && typeof paymentData.amount === 'number') {
-        return paymentData.amount
-      }
-    } catch (e) {
-      // Failed to parse, fall back to minimum
-      console.error('Failed to parse payment header:', e)
-    }
+  if (!paymentHeader || typeof paymentHeader !== 'string') return undefined
+  try {
+    const paymentData = JSON.parse(paymentHeader)
+    if (typeof paymentData.transaction !== 'string') return undefined
+    return paymentData
+  } catch (e) {
+    console.error('Failed to parse payment header:', e)
+    return undefined
   }
+}
+
+// TXID of the base64 AtomicBEEF transaction carried in a payment header
+export function paymentTxid(payment: PaymentHeader): string {
+  return Transaction.fromAtomicBEEF(Utils.toArray(payment.transaction, 'base64')).id('hex')
+}
+
+// Satoshis a payment header's transaction actually pays the backend: the outputs locked
+// to the BRC-29 key derived for its derivation prefix and suffix. The payment middleware
+// only reports the price it requested, whatever the transaction pays.
+export async function paymentAmount(payment: PaymentHeader, senderIdentityKey: string): Promise<number> {
+  const { publicKey } = await wallet.getPublicKey({
+    protocolID: BRC29_PROTOCOL_ID,
+    keyID: `${payment.derivationPrefix} ${payment.derivationSuffix}`,
+    counterparty: senderIdentityKey,
+    forSelf: true
+  })
+  const lockingScript = new P2PKH().lock(PublicKey.fromString(publicKey).toAddress()).toHex()
+  return Transaction.fromAtomicBEEF(Utils.toArray(payment.transaction, 'base64')).outputs
+    .filter(output => output.lockingScript.toHex() === lockingScript)
+    .reduce((sum, output) => sum + (output.satoshis ?? 0), 0)
+}
 
-  // Return 1 sat minimum to trigger the payment flow
-  // The middleware will accept any amount >= 1 sat
-  return 1
+// Identity key of the mutually authenticated peer, if the auth middleware established one
+export function authenticatedIdentity(req: PaymentRequest): string | undefined {
+  const identityKey = req.auth?.identityKey
+  return identityKey && identityKey !== 'unknown' ? identityKey : undefined
+}
+
+// Investment amount requested in the (signed) JSON body
+export function investmentAmount(req: NextApiRequest): number | undefined {
+  const amount = req.body?.amount
+  return Number.isSafeInteger(amount) && amount > 0 ? amount : undefined
+}
+
+// Price calculator for payment middleware
+// The investor asks for the amount in the request body, which is covered by the
+// BRC-103 signature, so the 402 response requests exactly that many satoshis
+export function calculateInvestmentPrice(req: any): number {
+  const amount = investmentAmount(req)
+  if (amount === undefined) {
+    throw new Error('Missing or invalid investment amount')
+  }
+  return amount
 }
 
 // Derivation parameters for BRC-29
-export const BRC29_PROTOCOL_ID: [number, string] = [2, '3241645161d8']
+export const BRC29_PROTOCOL_ID: WalletProtocol = [2, '3241645161d8']
 export const DERIVATION_PREFIX = 'crowdfunding'
 
-// Convert Express middleware to Next.js API route handler
+// Convert Express middleware to Next.js API route handler.
+// Resolves true once the middleware calls next(), or false if it answered the
+// request itself (401, 402, ...), in which case the route should stop.
+// Under the Express server the request and response are already Express's own,
+// and nothing needs to be added to them.
 export function runMiddleware(
   req: NextApiRequest,
   res: NextApiResponse,
   fn: (req: Request, res: Response, next: NextFunction) => void
-): Promise<void> {
+): Promise<boolean> {
   return new Promise((resolve, reject) => {
+    // Extend Next.js request with the Express properties the auth middleware reads
+    const extendedReq: any = req
+
+    if (extendedReq.originalUrl === undefined) {
+      extendedReq.originalUrl = req.url
+    }
+
+    if (extendedReq.path === undefined) {
+      extendedReq.path = new URL(req.url ?? '/', 'http://localhost').pathname
+    }
+
+    if (extendedReq.protocol === undefined) {
+      const forwardedProto = req.headers['x-forwarded-proto']
+      extendedReq.protocol = typeof forwardedProto === 'string' ? forwardedProto.split(',')[0] : 'http'
+    }
+
+    if (!extendedReq.get) {
+      extendedReq.get = function(field: string) {
+        return req.headers[field.toLowerCase()]
+      }
+    }
+
     // Extend Next.js response with Express-compatible methods
     const extendedRes: any = res
 
@@ -85,35 +152,92 @@ export function runMiddleware(
       }
     }
 
-    fn(req as any, extendedRes, (result: any) => {
+    // The auth middleware wraps res.sendFile and refuses to restore a response
+    // without one. API routes never serve files, so it only has to exist.
+    if (!extendedRes.sendFile) {
+      extendedRes.sendFile = function() {
+        throw new Error('res.sendFile is not supported in API routes')
+      }
+    }
+
+    // The middleware answered the request without handing over to the route
+    res.once('finish', () => resolve(false))
+    res.once('close', () => resolve(false))
+
+    fn(extendedReq, extendedRes, (result: any) => {
       if (result instanceof Error) {
         return reject(result)
       }
-      return resolve(result)
+      return resolve(true)
     })
   })
 }
 
-// Create auth middleware instance
-let authMiddlewareInstance: ((req: Request, res: Response, next: NextFunction) => void) | null = null
+// Create auth middleware instance.
+// Every request through it must be mutually authenticated (BRC-103), so
+// req.auth.identityKey is always the key of the peer that signed the request.
+// A single instance is shared so handshakes at /.well-known/auth and the
+// routes that use it see the same sessions.
+const sharedAuth = globalThis as typeof globalThis & {
+  authMiddleware?: (req: Request, res: Response, next: NextFunction) => void
+}
 
 export async function getAuthMiddleware() {
-  authMiddlewareInstance ??= createAuthMiddleware({
+  sharedAuth.authMiddleware ??= createAuthMiddleware({
       wallet,
-      allowUnauthenticated: true, // Allow unauthenticated - we'll get identity from payment
+      allowUnauthenticated: false,
       logger: console,
       logLevel: 'info'
     })
-  return authMiddlewareInstance
+  return sharedAuth.authMiddleware
 }
 
-// Create payment middleware instance
-let paymentMiddlewareInstance: ((req: Request, res: Response, next: NextFunction) => Promise<void>) | null = null
+// Runs the auth middleware for an API route and returns the authenticated identity key.
+// Returns undefined when the request has already been answered (401, handshake error).
+// The Express server (src/server.ts) mounts the auth middleware itself, so requests
+// it hands to a route are already authenticated.
+// The auth middleware sends the response itself once it has been signed, after the
+// route returns. Next.js would warn about the unresolved request, so routes that call
+// authenticate export a config with api.externalResolver set.
+export async function authenticate(req: PaymentRequest, res: NextApiResponse): Promise<string | undefined> {
+  if (req.auth === undefined) {
+    try {
+      const authMiddleware = await getAuthMiddleware()
+      if (!(await runMiddleware(req, res, authMiddleware))) return undefined
+    } catch (error: any) {
+      console.error('Authentication error:', error)
+      if (!res.headersSent) {
+        res.status(401).json({ error: error.message || 'Authentication failed' })
+      }
+      return undefined
+    }
+  }
 
-export async function getPaymentMiddleware() {
-  paymentMiddlewareInstance ??= createPaymentMiddleware({
-      wallet,
-      calculateRequestPrice: calculateInvestmentPrice
-    })
-  return paymentMiddlewareInstance
+  const identityKey = authenticatedIdentity(req)
+  if (!identityKey) {
+    res.status(401).json({ error: 'Authenticated identity required' })
+  }
+  return identityKey
+}
+
+// Backend wallet that adds labels to the payments it internalizes
+function labellingWallet(labels: string[]): WalletInterface {
+  return new Proxy(wallet, {
+    get(target, property, receiver) {
+      if (property === 'internalizeAction') {
+        return (args: InternalizeActionArgs, originator?: string) =>
+          target.internalizeAction({ ...args, labels: [...(args.labels ?? []), ...labels] }, originator)
+      }
+      return Reflect.get(target, property, receiver)
+    }
+  })
+}
+
+// Create a payment middleware instance. Payments it accepts are internalized with
+// the given labels, so they can be found in the wallet's history.
+export async function getPaymentMiddleware(labels: string[] = []) {
+  return createPaymentMiddleware({
+    wallet: labels.length > 0 ? labellingWallet(labels) : wallet,
+    calculateRequestPrice: calculateInvestmentPrice
+  })
 }
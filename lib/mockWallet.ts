@@ -0,0 +1,434 @@
+import {
+  AbortActionArgs,
+  AbortActionResult,
+  AuthenticatedResult,
+  Beef,
+  ChainTracker,
+  CreateActionArgs,
+  CreateActionResult,
+  GetHeightResult,
+  GetNetworkResult,
+  GetVersionResult,
+  Hash,
+  InternalizeActionArgs,
+  InternalizeActionResult,
+  ListActionsArgs,
+  ListActionsResult,
+  ListOutputsArgs,
+  ListOutputsResult,
+  LockingScript,
+  MerklePath,
+  P2PKH,
+  PrivateKey,
+  ProtoWallet,
+  PublicKey,
+  Random,
+  RelinquishOutputArgs,
+  RelinquishOutputResult,
+  SignActionArgs,
+  SignActionResult,
+  Transaction,
+  TransactionInput,
+  UnlockingScript,
+  Utils,
+  WalletAction,
+  WalletInterface,
+  WalletOutput,
+  WalletProtocol
+} from '@bsv/sdk'
+
+// Offline stand-in for a real wallet, used when NETWORK=mock. Keys and cryptography
+// are real (it is a ProtoWallet), but transactions never leave the process: every
+// action is funded from a made-up transaction paying the wallet's identity key, and
+// everything the wallet holds lives in memory.
+
+// Height at which mock funding transactions claim to be mined
+export const MOCK_BLOCK_HEIGHT = 900_000
+
+// Mock funding transactions are never mined, so every merkle root is accepted
+export const mockChainTracker: ChainTracker = {
+  isValidRootForHeight: async () => true,
+  currentHeight: async () => MOCK_BLOCK_HEIGHT
+}
+
+// Same key for the same name every time, so mock identities survive restarts
+export function mockWalletKey(name: string): PrivateKey {
+  return new PrivateKey(Hash.sha256(Utils.toArray(`crowdfunding mock wallet ${name}`, 'utf8')))
+}
+
+// BRC-29 payments, as internalized with the 'wallet payment' protocol
+const BRC29_PROTOCOL_ID: WalletProtocol = [2, '3241645161d8']
+
+// The real wallet returns 10 results when no limit is given
+const DEFAULT_LIMIT = 10
+
+interface MockOutput {
+  txid: string
+  outputIndex: number
+  satoshis: number
+  lockingScript: string
+  basket: string
+  tags: string[]
+  customInstructions?: string
+  spendable: boolean
+}
+
+interface PendingAction {
+  tx: Transaction
+  args: CreateActionArgs
+}
+
+// Wallets store labels, tags and baskets trimmed and lowercased
+function normalize(values: string[] = []): string[] {
+  return values.map(value => value.trim().toLowerCase())
+}
+
+function unsupported(method: string): never {
+  throw new Error(`${method} is not supported by the mock wallet`)
+}
+
+export class MockWallet extends ProtoWallet implements WalletInterface {
+  private readonly rootKey: PrivateKey
+  private readonly transactions = new Map<string, Transaction>()
+  private readonly outputs: MockOutput[] = []
+  private readonly actions: WalletAction[] = []
+  private readonly pending = new Map<string, PendingAction>()
+  private fundingCount = 0
+
+  constructor(rootKey: PrivateKey) {
+    super(rootKey)
+    this.rootKey = rootKey
+  }
+
+  // Made-up transaction paying the wallet's identity key exactly what an action is short.
+  // It carries a merkle path, as if mined, so spends of it verify like any other.
+  private fundingInput(satoshis: number): TransactionInput {
+    const source = new Transaction()
+    source.addOutput({ lockingScript: new P2PKH().lock(this.rootKey.toAddress()), satoshis })
+    // Numbered so each funding transaction of the wallet has its own txid
+    source.lockTime = ++this.fundingCount
+    const txid = source.id('hex')
+    // The txid decides the height, so funding from different mock wallets can share a BEEF
+    const height = MOCK_BLOCK_HEIGHT - parseInt(txid.slice(0, 4), 16)
+    source.merklePath = new MerklePath(height, [[
+      { offset: 0, hash: '00'.repeat(32) },
+      { offset: 1, hash: txid, txid: true }
+    ]])
+    return {
+      sourceTransaction: source,
+      sourceOutputIndex: 0,
+      unlockingScriptTemplate: new P2PKH().unlock(this.rootKey)
+    }
+  }
+
+  private findTransaction(txid: string, inputBEEF?: number[]): Transaction | undefined {
+    return this.transactions.get(txid) ?? (inputBEEF && Beef.fromBinary(inputBEEF).findAtomicTransaction(txid)) ?? undefined
+  }
+
+  async createAction(args: CreateActionArgs): Promise<CreateActionResult> {
+    const tx = new Transaction(args.version, [], [], args.lockTime)
+
+    for (const input of args.inputs ?? []) {
+      const [txid, vout] = input.outpoint.split('.')
+      const sourceTransaction = this.findTransaction(txid, args.inputBEEF)
+      if (!sourceTransaction) {
+        throw new Error(`Input ${input.outpoint} was not found in the wallet or inputBEEF`)
+      }
+      tx.addInput({
+        sourceTransaction,
+        sourceOutputIndex: Number(vout),
+        // Placeholder until the script is supplied to signAction
+        unlockingScript: input.unlockingScript !== undefined
+          ? UnlockingScript.fromHex(input.unlockingScript)
+          : new UnlockingScript(),
+        sequence: input.sequenceNumber
+      })
+    }
+
+    for (const output of args.outputs ?? []) {
+      tx.addOutput({ lockingScript: LockingScript.fromHex(output.lockingScript), satoshis: output.satoshis })
+    }
+
+    const inputTotal = tx.inputs.reduce(
+      (sum, input) => sum + (input.sourceTransaction!.outputs[input.sourceOutputIndex].satoshis ?? 0), 0
+    )
+    const outputTotal = tx.outputs.reduce((sum, output) => sum + (output.satoshis ?? 0), 0)
+    if (outputTotal > inputTotal) {
+      tx.addInput(this.fundingInput(outputTotal - inputTotal))
+    }
+    await tx.sign()
+
+    if ((args.inputs ?? []).some(input => input.unlockingScript === undefined)) {
+      const reference = Utils.toBase64(Random(12))
+      this.pending.set(reference, { tx, args })
+      return { signableTransaction: { tx: tx.toAtomicBEEF(), reference } }
+    }
+    return this.processAction(tx, args)
+  }
+
+  async signAction(args: SignActionArgs): Promise<SignActionResult> {
+    const pending = this.pending.get(args.reference)
+    if (!pending) {
+      throw new Error('Unknown action reference')
+    }
+
+    const { tx } = pending
+    for (const [index, spend] of Object.entries(args.spends)) {
+      const input = tx.inputs[Number(index)]
+      input.unlockingScript = UnlockingScript.fromHex(spend.unlockingScript)
+      if (spend.sequenceNumber !== undefined) input.sequence = spend.sequenceNumber
+    }
+    this.pending.delete(args.reference)
+    // A new transaction, since the signable one has cached its serialization and txid
+    return this.processAction(new Transaction(tx.version, tx.inputs, tx.outputs, tx.lockTime), pending.args)
+  }
+
+  async abortAction(args: AbortActionArgs): Promise<AbortActionResult> {
+    this.pending.delete(args.reference)
+    return { aborted: true }
+  }
+
+  // Records a finished outgoing action: its inputs are spent, and outputs given a
+  // basket are kept in it
+  private async processAction(tx: Transaction, args: CreateActionArgs): Promise<{ txid: string, tx: number[] }> {
+    if (!(await tx.verify('scripts only'))) {
+      throw new Error('Transaction failed verification')
+    }
+    const txid = tx.id('hex')
+    this.transactions.set(txid, tx)
+
+    for (const input of tx.inputs) {
+      const spent = this.outputs.find(
+        output => output.txid === input.sourceTransaction!.id('hex') && output.outputIndex === input.sourceOutputIndex
+      )
+      if (spent) spent.spendable = false
+    }
+
+    const outputs = (args.outputs ?? []).map((output, outputIndex) => ({
+      satoshis: output.satoshis,
+      lockingScript: output.lockingScript,
+      spendable: output.basket !== undefined,
+      customInstructions: output.customInstructions,
+      tags: normalize(output.tags),
+      outputIndex,
+      outputDescription: output.outputDescription,
+      basket: output.basket?.trim().toLowerCase() ?? ''
+    }))
+    for (const output of outputs) {
+      if (!output.spendable) continue
+      this.outputs.push({ txid, ...output })
+    }
+
+    this.actions.push({
+      txid,
+      satoshis: -outputs.filter(output => !output.spendable).reduce((sum, output) => sum + output.satoshis, 0),
+      status: 'completed',
+      isOutgoing: true,
+      description: args.description,
+      labels: normalize(args.labels),
+      version: tx.version,
+      lockTime: tx.lockTime,
+      outputs
+    })
+    return { txid, tx: tx.toAtomicBEEF() }
+  }
+
+  async internalizeAction(args: InternalizeActionArgs): Promise<InternalizeActionResult> {
+    const tx = Transaction.fromAtomicBEEF(args.tx)
+    if (!(await tx.verify('scripts only'))) {
+      throw new Error('Transaction failed verification')
+    }
+    const txid = tx.id('hex')
+    if (this.actions.some(action => action.txid === txid)) {
+      return { accepted: true }
+    }
+
+    let satoshis = 0
+    const outputs: WalletAction['outputs'] = []
+    for (const output of args.outputs) {
+      const txOutput = tx.outputs[output.outputIndex]
+      if (!txOutput) {
+        throw new Error(`Transaction has no output ${output.outputIndex}`)
+      }
+      const lockingScript = txOutput.lockingScript.toHex()
+      let basket: string
+      let customInstructions: string | undefined
+      let tags: string[] = []
+
+      if (output.protocol === 'wallet payment') {
+        const { derivationPrefix, derivationSuffix, senderIdentityKey } = output.paymentRemittance!
+        const { publicKey } = await this.getPublicKey({
+          protocolID: BRC29_PROTOCOL_ID,
+          keyID: `${derivationPrefix} ${derivationSuffix}`,
+          counterparty: senderIdentityKey,
+          forSelf: true
+        })
+        if (lockingScript !== new P2PKH().lock(PublicKey.fromString(publicKey).toAddress()).toHex()) {
+          throw new Error(`Output ${output.outputIndex} is not a payment to this wallet`)
+        }
+        basket = 'default'
+        satoshis += txOutput.satoshis ?? 0
+      } else {
+        const remittance = output.insertionRemittance!
+        basket = remittance.basket.trim().toLowerCase()
+        customInstructions = remittance.customInstructions
+        tags = normalize(remittance.tags)
+      }
+
+      this.outputs.push({
+        txid,
+        outputIndex: output.outputIndex,
+        satoshis: txOutput.satoshis ?? 0,
+        lockingScript,
+        basket,
+        tags,
+        customInstructions,
+        spendable: true
+      })
+      outputs.push({
+        satoshis: txOutput.satoshis ?? 0,
+        lockingScript,
+        spendable: true,
+        customInstructions,
+        tags,
+        outputIndex: output.outputIndex,
+        outputDescription: '',
+        basket
+      })
+    }
+
+    this.transactions.set(txid, tx)
+    this.actions.push({
+      txid,
+      satoshis,
+      status: 'completed',
+      isOutgoing: false,
+      description: args.description,
+      labels: normalize(args.labels),
+      version: tx.version,
+      lockTime: tx.lockTime,
+      outputs
+    })
+    return { accepted: true }
+  }
+
+  async listOutputs(args: ListOutputsArgs): Promise<ListOutputsResult> {
+    const basket = args.basket.trim().toLowerCase()
+    const tags = normalize(args.tags)
+    const matching = this.outputs.filter(output =>
+      output.spendable &&
+      output.basket === basket &&
+      (tags.length === 0 || (args.tagQueryMode === 'all'
+        ? tags.every(tag => output.tags.includes(tag))
+        : tags.some(tag => output.tags.includes(tag))))
+    )
+    const offset = args.offset ?? 0
+    const page = matching.slice(offset, offset + (args.limit ?? DEFAULT_LIMIT))
+
+    const result: ListOutputsResult = {
+      totalOutputs: matching.length,
+      outputs: page.map((output): WalletOutput => ({
+        satoshis: output.satoshis,
+        lockingScript: args.include === 'locking scripts' ? output.lockingScript : undefined,
+        spendable: true,
+        customInstructions: args.includeCustomInstructions ? output.customInstructions : undefined,
+        tags: args.includeTags ? output.tags : undefined,
+        outpoint: `${output.txid}.${output.outputIndex}`
+      }))
+    }
+
+    if (args.include === 'entire transactions') {
+      const beef = new Beef()
+      for (const output of page) {
+        beef.mergeTransaction(this.transactions.get(output.txid)!)
+      }
+      result.BEEF = beef.toBinary()
+    }
+    return result
+  }
+
+  async listActions(args: ListActionsArgs): Promise<ListActionsResult> {
+    const labels = normalize(args.labels)
+    const matching = this.actions.filter(action =>
+      labels.length === 0 || (args.labelQueryMode === 'all'
+        ? labels.every(label => action.labels!.includes(label))
+        : labels.some(label => action.labels!.includes(label)))
+    )
+    const offset = args.offset ?? 0
+    const page = matching.slice(offset, offset + (args.limit ?? DEFAULT_LIMIT))
+
+    return {
+      totalActions: matching.length,
+      actions: page.map(action => ({
+        ...action,
+        labels: args.includeLabels ? action.labels : undefined,
+        outputs: args.includeOutputs
+          ? action.outputs!.map(output => ({
+            ...output,
+            lockingScript: args.includeOutputLockingScripts ? output.lockingScript : undefined
+          }))
+          : undefined
+      }))
+    }
+  }
+
+  async relinquishOutput(args: RelinquishOutputArgs): Promise<RelinquishOutputResult> {
+    const basket = args.basket.trim().toLowerCase()
+    const index = this.outputs.findIndex(
+      output => output.basket === basket && `${output.txid}.${output.outputIndex}` === args.output
+    )
+    if (index === -1) {
+      throw new Error(`Output ${args.output} is not in basket ${args.basket}`)
+    }
+    this.outputs.splice(index, 1)
+    return { relinquished: true }
+  }
+
+  async isAuthenticated(): Promise<AuthenticatedResult> {
+    return { authenticated: true }
+  }
+
+  async waitForAuthentication(): Promise<AuthenticatedResult> {
+    return { authenticated: true }
+  }
+
+  async getHeight(): Promise<GetHeightResult> {
+    return { height: MOCK_BLOCK_HEIGHT }
+  }
+
+  async getNetwork(): Promise<GetNetworkResult> {
+    return { network: 'testnet' }
+  }
+
+  async getVersion(): Promise<GetVersionResult> {
+    return { version: 'mock-1.0.0' }
+  }
+
+  async getHeaderForHeight(): Promise<never> {
+    return unsupported('getHeaderForHeight')
+  }
+
+  async acquireCertificate(): Promise<never> {
+    return unsupported('acquireCertificate')
+  }
+
+  async listCertificates(): Promise<never> {
+    return unsupported('listCertificates')
+  }
+
+  async proveCertificate(): Promise<never> {
+    return unsupported('proveCertificate')
+  }
+
+  async relinquishCertificate(): Promise<never> {
+    return unsupported('relinquishCertificate')
+  }
+
+  async discoverByIdentityKey(): Promise<never> {
+    return unsupported('discoverByIdentityKey')
+  }
+
+  async discoverByAttributes(): Promise<never> {
+    return unsupported('discoverByAttributes')
+  }
+}
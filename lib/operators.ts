@@ -0,0 +1,28 @@
+import type { NextApiResponse } from 'next'
+import { PaymentRequest, authenticate } from './middleware'
+
+// Identity keys of the operators allowed to run campaign administration such as
+// batch token distribution, configured as a comma-separated list in OPERATOR_KEYS
+export function getOperatorKeys(): string[] {
+  return (process.env.OPERATOR_KEYS ?? '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(key => key !== '')
+}
+
+export function isOperator(identityKey: string | undefined): boolean {
+  return identityKey !== undefined && getOperatorKeys().includes(identityKey)
+}
+
+// Authenticates the peer through the auth middleware and requires an operator identity.
+// Sends the 401 or 403 itself and returns undefined when the caller is not an operator.
+export async function authenticateOperator(req: PaymentRequest, res: NextApiResponse): Promise<string | undefined> {
+  const identityKey = await authenticate(req, res)
+  if (!identityKey) return undefined
+
+  if (!isOperator(identityKey)) {
+    res.status(403).json({ error: 'Only operators can administer campaigns' })
+    return undefined
+  }
+  return identityKey
+}
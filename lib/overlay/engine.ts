@@ -0,0 +1,145 @@
+import { ChainTracker, LookupAnswer, LookupQuestion, STEAK, TaggedBEEF, Transaction, Utils } from '@bsv/sdk'
+import { KeyedMutex } from '../mutex'
+import { JsonOverlayStore } from './store'
+import { LookupService, OverlayOutput, TopicManager } from './types'
+
+// Minimal in-process Overlay Services Engine: runs submitted transactions through
+// topic managers, keeps the admitted outputs with their BEEF, and notifies lookup
+// services. It does not broadcast or sync with other hosts; transactions reach it after
+// the wallet has already broadcast them.
+export class OverlayEngine {
+  private readonly lock = new KeyedMutex()
+
+  constructor(
+    private readonly managers: Record<string, TopicManager>,
+    private readonly lookupServices: Record<string, LookupService>,
+    private readonly store: JsonOverlayStore,
+    private readonly getChainTracker: () => Promise<ChainTracker>
+  ) {}
+
+  // Submissions are public, so nothing is admitted or marked spent before the transaction's
+  // scripts and merkle proofs check out. Otherwise anyone could post an unsigned
+  // transaction "spending" a real token.
+  private async verify(transaction: Transaction) {
+    let verified: boolean
+    try {
+      verified = await transaction.verify(await this.getChainTracker())
+    } catch (error: any) {
+      throw new Error(`Transaction failed SPV verification: ${error.message}`)
+    }
+    if (!verified) {
+      throw new Error('Transaction failed SPV verification')
+    }
+  }
+
+  async submit({ beef, topics, offChainValues }: TaggedBEEF): Promise<STEAK> {
+    for (const topic of topics) {
+      if (!this.managers[topic]) {
+        throw new Error(`Unknown topic "${topic}"`)
+      }
+    }
+
+    const transaction = Transaction.fromBEEF(beef)
+    const txid = transaction.id('hex')
+    await this.verify(transaction)
+
+    return this.lock.runExclusive('submit', async () => {
+      const { outputs, submissions } = this.store.read()
+      if (submissions[txid]) {
+        return submissions[txid]
+      }
+
+      const steak: STEAK = {}
+      const admitted: OverlayOutput[] = []
+      const spent: OverlayOutput[] = []
+      const removed: OverlayOutput[] = []
+
+      for (const topic of topics) {
+        const spentCoins = new Map<number, OverlayOutput>()
+        transaction.inputs.forEach((input, inputIndex) => {
+          const sourceTxid = input.sourceTXID ?? input.sourceTransaction?.id('hex')
+          const coin = outputs.find(output =>
+            output.topic === topic &&
+            output.txid === sourceTxid &&
+            output.outputIndex === input.sourceOutputIndex &&
+            output.spentBy === undefined
+          )
+          if (coin) {
+            spentCoins.set(inputIndex, coin)
+          }
+        })
+
+        const instructions = await this.managers[topic].identifyAdmissibleOutputs(
+          beef,
+          [...spentCoins.keys()],
+          offChainValues
+        )
+
+        const coinsRemoved = [...spentCoins.keys()].filter(index => !instructions.coinsToRetain.includes(index))
+        for (const [inputIndex, coin] of spentCoins) {
+          (coinsRemoved.includes(inputIndex) ? removed : spent).push(coin)
+        }
+
+        for (const outputIndex of instructions.outputsToAdmit) {
+          admitted.push({
+            txid,
+            outputIndex,
+            topic,
+            beef: Utils.toBase64(beef),
+            admittedAt: Date.now()
+          })
+        }
+
+        steak[topic] = { ...instructions, coinsRemoved }
+      }
+
+      const isCoin = (coin: OverlayOutput) => (output: OverlayOutput) =>
+        output.topic === coin.topic && output.txid === coin.txid && output.outputIndex === coin.outputIndex
+
+      this.store.update(data => {
+        for (const coin of spent) {
+          const output = data.outputs.find(isCoin(coin))
+          if (output) output.spentBy = txid
+        }
+        data.outputs = data.outputs.filter(output => !removed.some(coin => isCoin(coin)(output)))
+        data.outputs.push(...admitted)
+        data.submissions[txid] = steak
+      })
+
+      for (const service of Object.values(this.lookupServices)) {
+        for (const coin of [...spent, ...removed]) {
+          await service.outputSpent(coin.txid, coin.outputIndex, coin.topic, txid)
+        }
+        for (const output of admitted) {
+          await service.outputAdmittedByTopic({
+            txid,
+            outputIndex: output.outputIndex,
+            topic: output.topic,
+            lockingScript: transaction.outputs[output.outputIndex].lockingScript,
+            offChainValues
+          })
+        }
+      }
+
+      return steak
+    })
+  }
+
+  async lookup(question: LookupQuestion): Promise<LookupAnswer> {
+    const service = this.lookupServices[question.service]
+    if (!service) {
+      throw new Error(`Unknown lookup service "${question.service}"`)
+    }
+
+    const formula = await service.lookup(question)
+    const { outputs } = this.store.read()
+
+    return {
+      type: 'output-list',
+      outputs: formula.flatMap(({ txid, outputIndex }) => {
+        const output = outputs.find(o => o.txid === txid && o.outputIndex === outputIndex)
+        return output ? [{ beef: Utils.toArray(output.beef, 'base64'), outputIndex }] : []
+      })
+    }
+  }
+}
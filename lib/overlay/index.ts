@@ -0,0 +1,60 @@
+import { STEAK } from '@bsv/sdk'
+import { priorIssuerWallets, wallet, walletServices } from '../../src/wallet'
+import { listKeyRotations } from '../storage'
+import { OverlayEngine } from './engine'
+import { JsonOverlayStore, DEFAULT_OVERLAY_FILE } from './store'
+import { CrowdfundingTopicManager, encodeTokenOffChainValues, TOKEN_TOPIC } from './topicManager'
+import { CrowdfundingLookupService, TOKEN_LOOKUP_SERVICE } from './lookupService'
+
+export { TOKEN_TOPIC } from './topicManager'
+export { TOKEN_LOOKUP_SERVICE } from './lookupService'
+export type { TokenLookupQuery } from './lookupService'
+
+const overlayDataFile = process.env.OVERLAY_DATA_FILE || DEFAULT_OVERLAY_FILE
+
+function createEngine(): OverlayEngine {
+  const store = new JsonOverlayStore(overlayDataFile)
+  return new OverlayEngine(
+    {
+      [TOKEN_TOPIC]: new CrowdfundingTopicManager(
+        wallet,
+        async () => (await listKeyRotations()).map(rotation => rotation.previousIdentity),
+        priorIssuerWallets
+      )
+    },
+    { [TOKEN_LOOKUP_SERVICE]: new CrowdfundingLookupService(store) },
+    store,
+    () => walletServices.getChainTracker()
+  )
+}
+
+// Shared through globalThis like the campaign store, so every API route submits
+// through the same engine lock
+const shared = globalThis as typeof globalThis & {
+  overlayEngine?: OverlayEngine
+}
+
+export function getOverlayEngine(): OverlayEngine {
+  return shared.overlayEngine ??= createEngine()
+}
+
+// Submits a transaction carrying tokens to the crowdfunding topic, naming the holder
+// of each token output. Errors are logged rather than thrown: the tokens exist on
+// chain either way, and the transaction can be submitted again later.
+export async function submitTokenTransaction(
+  beef: number[],
+  holders: Record<number, string>
+): Promise<STEAK | undefined> {
+  try {
+    const steak = await getOverlayEngine().submit({
+      beef,
+      topics: [TOKEN_TOPIC],
+      offChainValues: encodeTokenOffChainValues({ holders })
+    })
+    console.log(`Overlay admitted outputs ${JSON.stringify(steak[TOKEN_TOPIC].outputsToAdmit)} into ${TOKEN_TOPIC}`)
+    return steak
+  } catch (error) {
+    console.error('Overlay submission failed:', error)
+    return undefined
+  }
+}
@@ -0,0 +1,89 @@
+import { LookupQuestion } from '@bsv/sdk'
+import { decodeToken } from '../token'
+import { JsonOverlayStore } from './store'
+import { decodeTokenOffChainValues, TOKEN_TOPIC } from './topicManager'
+import { AdmittedOutput, LookupFormula, LookupService } from './types'
+
+export const TOKEN_LOOKUP_SERVICE = 'ls_crowdfunding'
+
+// Every given criterion must match. Spent tokens are only returned with includeSpent.
+export interface TokenLookupQuery {
+  campaignId?: string
+  holderKey?: string
+  // "txid.vout"
+  outpoint?: string
+  includeSpent?: boolean
+}
+
+function parseQuery(query: unknown): TokenLookupQuery {
+  if (typeof query !== 'object' || query === null) {
+    throw new Error('Lookup query must be an object')
+  }
+  const { campaignId, holderKey, outpoint, includeSpent } = query as Record<string, unknown>
+  for (const [name, value] of Object.entries({ campaignId, holderKey, outpoint })) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new Error(`Invalid ${name} in lookup query`)
+    }
+  }
+  if (campaignId === undefined && holderKey === undefined && outpoint === undefined) {
+    throw new Error('Lookup query needs a campaignId, holderKey or outpoint')
+  }
+  return {
+    campaignId: campaignId as string | undefined,
+    holderKey: holderKey as string | undefined,
+    outpoint: outpoint as string | undefined,
+    includeSpent: includeSpent === true
+  }
+}
+
+// Indexes admitted crowdfunding tokens by campaign, holder and outpoint
+export class CrowdfundingLookupService implements LookupService {
+  constructor(private readonly store: JsonOverlayStore) {}
+
+  async outputAdmittedByTopic({ txid, outputIndex, topic, lockingScript, offChainValues }: AdmittedOutput): Promise<void> {
+    if (topic !== TOKEN_TOPIC) return
+
+    const token = decodeToken(lockingScript)
+    if (!token) return
+
+    const { holders } = decodeTokenOffChainValues(offChainValues)
+    this.store.update(data => {
+      data.tokens.push({
+        txid,
+        outputIndex,
+        campaignId: token.campaignId,
+        issuerKey: token.issuerKey,
+        lockerKey: token.lockerKey,
+        holderKey: holders[outputIndex],
+        admittedAt: Date.now()
+      })
+    })
+  }
+
+  async outputSpent(txid: string, outputIndex: number, topic: string, spendingTxid: string): Promise<void> {
+    if (topic !== TOKEN_TOPIC) return
+
+    this.store.update(data => {
+      const token = data.tokens.find(t => t.txid === txid && t.outputIndex === outputIndex)
+      if (token) {
+        token.spentBy = spendingTxid
+      }
+    })
+  }
+
+  async lookup({ service, query }: LookupQuestion): Promise<LookupFormula> {
+    if (service !== TOKEN_LOOKUP_SERVICE) {
+      throw new Error(`Lookup service ${TOKEN_LOOKUP_SERVICE} cannot answer ${service} queries`)
+    }
+    const { campaignId, holderKey, outpoint, includeSpent } = parseQuery(query)
+
+    return this.store.read().tokens
+      .filter(token =>
+        (campaignId === undefined || token.campaignId === campaignId) &&
+        (holderKey === undefined || token.holderKey === holderKey) &&
+        (outpoint === undefined || `${token.txid}.${token.outputIndex}` === outpoint) &&
+        (includeSpent || token.spentBy === undefined)
+      )
+      .map(({ txid, outputIndex }) => ({ txid, outputIndex }))
+  }
+}
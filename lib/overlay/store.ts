@@ -0,0 +1,29 @@
+import { readFileSync, writeFileSync, existsSync, renameSync } from 'fs'
+import { join } from 'path'
+import { OverlayData } from './types'
+
+export const DEFAULT_OVERLAY_FILE = join(process.cwd(), 'overlay-data.json')
+
+// Overlay state in one JSON file, shared by the engine and its lookup services.
+// The file is re-read on every call so that separately bundled API routes always
+// see the latest state.
+export class JsonOverlayStore {
+  constructor(private readonly dataFile = DEFAULT_OVERLAY_FILE) {}
+
+  read(): OverlayData {
+    if (!existsSync(this.dataFile)) {
+      return { outputs: [], tokens: [], submissions: {} }
+    }
+    return JSON.parse(readFileSync(this.dataFile, 'utf-8'))
+  }
+
+  // Read-modify-write. Callers serialize updates through the engine's lock.
+  update<T>(fn: (data: OverlayData) => T): T {
+    const data = this.read()
+    const result = fn(data)
+    const tempFile = `${this.dataFile}.tmp`
+    writeFileSync(tempFile, JSON.stringify(data, null, 2), 'utf-8')
+    renameSync(tempFile, this.dataFile)
+    return result
+  }
+}
@@ -0,0 +1,80 @@
+import { AdmittanceInstructions, Transaction, Utils, WalletInterface } from '@bsv/sdk'
+import { decodeToken, verifyTokenLock } from '../token'
+import { TopicManager } from './types'
+
+export const TOKEN_TOPIC = 'tm_crowdfunding'
+
+// Off-chain values submitted with a token transaction: the holder of each token
+// output, which the locking script alone does not reveal
+export interface TokenOffChainValues {
+  holders: Record<number, string>
+}
+
+export function encodeTokenOffChainValues(values: TokenOffChainValues): number[] {
+  return Utils.toArray(JSON.stringify(values), 'utf8')
+}
+
+export function decodeTokenOffChainValues(offChainValues?: number[]): TokenOffChainValues {
+  if (!offChainValues || offChainValues.length === 0) {
+    return { holders: {} }
+  }
+  try {
+    const { holders } = JSON.parse(Utils.toUTF8(offChainValues))
+    return { holders: holders ?? {} }
+  } catch {
+    return { holders: {} }
+  }
+}
+
+// Admits crowdfunding tokens issued by the given wallet, or by a key it rotated from:
+// - minted outputs (locked by the issuer) when the submitter names their holder and the
+//   lock and signature check out for that holder. Checking a prior key's tokens takes
+//   its wallet, so they are only admitted when that key is configured.
+// - transferred outputs (locked by a previous holder) when the transaction spends an
+//   admitted token of the same campaign
+// Spent tokens are retained so the index keeps their history.
+export class CrowdfundingTopicManager implements TopicManager {
+  constructor(
+    private readonly issuerWallet: WalletInterface,
+    private readonly priorIssuerKeys: () => Promise<string[]> = async () => [],
+    private readonly priorIssuerWallets: ReadonlyMap<string, Pick<WalletInterface, 'getPublicKey' | 'verifySignature'>> = new Map()
+  ) {}
+
+  async identifyAdmissibleOutputs(
+    beef: number[],
+    previousCoins: number[],
+    offChainValues?: number[]
+  ): Promise<AdmittanceInstructions> {
+    const transaction = Transaction.fromBEEF(beef)
+    const { publicKey: issuerKey } = await this.issuerWallet.getPublicKey({ identityKey: true })
+    const issuerKeys = [issuerKey, ...await this.priorIssuerKeys()]
+    const { holders } = decodeTokenOffChainValues(offChainValues)
+
+    const spentCampaigns = previousCoins.map(inputIndex => {
+      const input = transaction.inputs[inputIndex]
+      const source = input.sourceTransaction?.outputs[input.sourceOutputIndex]
+      return source && decodeToken(source.lockingScript)?.campaignId
+    })
+
+    const outputsToAdmit: number[] = []
+    for (const [outputIndex, output] of transaction.outputs.entries()) {
+      const token = decodeToken(output.lockingScript)
+      if (!token || !issuerKeys.includes(token.issuerKey)) continue
+
+      if (token.lockerKey === token.issuerKey) {
+        // An invalid holder key from the submitter just leaves the output out
+        const holderKey = holders[outputIndex]
+        const tokenIssuer = token.issuerKey === issuerKey ? this.issuerWallet : this.priorIssuerWallets.get(token.issuerKey)
+        const locked = holderKey !== undefined && tokenIssuer !== undefined &&
+          await verifyTokenLock(tokenIssuer, output.lockingScript, holderKey).catch(() => false)
+        if (locked) {
+          outputsToAdmit.push(outputIndex)
+        }
+      } else if (spentCampaigns.includes(token.campaignId)) {
+        outputsToAdmit.push(outputIndex)
+      }
+    }
+
+    return { outputsToAdmit, coinsToRetain: previousCoins }
+  }
+}
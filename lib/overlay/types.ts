@@ -0,0 +1,63 @@
+import { AdmittanceInstructions, LockingScript, LookupQuestion, STEAK } from '@bsv/sdk'
+
+// Topic manager and lookup service interfaces of the Overlay Services Engine
+// (@bsv/overlay), reduced to what the in-process engine uses
+
+export interface TopicManager {
+  // Decides which outputs of a submitted transaction join the topic. previousCoins are
+  // the indices of inputs spending outputs the topic already admitted.
+  identifyAdmissibleOutputs(
+    beef: number[],
+    previousCoins: number[],
+    offChainValues?: number[]
+  ): Promise<AdmittanceInstructions>
+}
+
+export interface AdmittedOutput {
+  txid: string
+  outputIndex: number
+  topic: string
+  lockingScript: LockingScript
+  offChainValues?: number[]
+}
+
+// Outputs answering a lookup, which the engine hydrates with their BEEF
+export type LookupFormula = Array<{ txid: string, outputIndex: number }>
+
+// Lookup services are told about every admitted and spent output, whatever its topic
+export interface LookupService {
+  outputAdmittedByTopic(output: AdmittedOutput): Promise<void>
+  outputSpent(txid: string, outputIndex: number, topic: string, spendingTxid: string): Promise<void>
+  lookup(question: LookupQuestion): Promise<LookupFormula>
+}
+
+// Output admitted into a topic, with the BEEF of its transaction (base64)
+export interface OverlayOutput {
+  txid: string
+  outputIndex: number
+  topic: string
+  beef: string
+  admittedAt: number
+  // Transaction that spent the output, for outputs retained as history
+  spentBy?: string
+}
+
+// Crowdfunding token indexed by the lookup service
+export interface TokenRecord {
+  txid: string
+  outputIndex: number
+  campaignId: string
+  issuerKey: string
+  lockerKey: string
+  // Identity the output is locked to, when the submitter provided it
+  holderKey?: string
+  admittedAt: number
+  spentBy?: string
+}
+
+export interface OverlayData {
+  outputs: OverlayOutput[]
+  tokens: TokenRecord[]
+  // Result of every transaction submitted so far, so resubmissions are answered the same
+  submissions: Record<string, STEAK>
+}
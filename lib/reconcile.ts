@@ -0,0 +1,222 @@
+import { WalletInterface } from '@bsv/sdk'
+import { Campaign, Contribution } from '../src/types'
+import { recordContribution } from './crowdfunding'
+import { verifyTokenLock } from './token'
+import { readWalletHistory, WalletHistory, WalletPaymentRecord, WalletTokenRecord } from './walletHistory'
+
+// Difference between the stored campaigns and the backend wallet's history
+export type Discrepancy =
+  // Payment in the wallet that no stored contribution accounts for. Payments taken
+  // before investments were labelled have no campaign or investor.
+  | { type: 'missing-payment', txid: string, amount: number, campaignId?: string, identityKey?: string }
+  // Stored contribution whose payment is not in the wallet
+  | { type: 'phantom-contribution', campaignId: string, identityKey: string, txid: string, amount: number }
+  // Stored contribution that does not add up to its payment, with any excess refunded
+  | { type: 'amount-mismatch', campaignId: string, identityKey: string, txid: string, stored: number, paid: number }
+  // Token minted for an investor the store does not have as redeemed
+  | { type: 'unredeemed-token', campaignId: string, identityKey: string, txid: string, outputIndex: number }
+  // Investor stored as redeemed with no token minted for them
+  | { type: 'missing-token', campaignId: string, identityKey: string }
+  // Token minted for an identity the backend could not match to an investor
+  | { type: 'unknown-token', campaignId: string, txid: string, outputIndex: number }
+
+// Satoshis a contribution's payment carried: the credited amount and any excess paid back
+function paidAmount(contribution: Contribution): number {
+  return contribution.amount + (contribution.excessRefund?.amount ?? 0)
+}
+
+// Tokens minted before outputs were tagged with their holder are matched to the
+// campaign's investors by checking which investor each one is locked to
+export async function identifyHolders(
+  wallet: WalletInterface,
+  history: WalletHistory,
+  campaigns: Campaign[]
+): Promise<void> {
+  for (const token of history.tokens) {
+    if (token.holderKey) continue
+    const candidates = new Set([
+      ...(campaigns.find(c => c.id === token.campaignId)?.investors.map(inv => inv.identityKey) ?? []),
+      ...history.payments.filter(p => p.campaignId === token.campaignId && p.investorKey).map(p => p.investorKey!)
+    ])
+    for (const identityKey of candidates) {
+      if (await verifyTokenLock(wallet, token.lockingScript, identityKey)) {
+        token.holderKey = identityKey
+        break
+      }
+    }
+  }
+}
+
+// Campaigns carried over by key rotations took payments and minted tokens under their
+// prior keys too. Those records are added from each prior key's wallet, leaving out the
+// campaigns archived under it. Returns the campaigns with a prior key whose wallet could
+// not be opened: their history is incomplete, so they cannot be reconciled.
+export async function addPriorIssuerHistory(
+  history: WalletHistory,
+  campaigns: Campaign[],
+  openPriorWallet: (identityKey: string) => Promise<WalletInterface | undefined>
+): Promise<string[]> {
+  const unchecked = new Set<string>()
+
+  for (const priorKey of new Set(campaigns.flatMap(campaign => campaign.priorIssuerKeys ?? []))) {
+    const carried = campaigns.filter(campaign => campaign.priorIssuerKeys?.includes(priorKey))
+    const priorWallet = await openPriorWallet(priorKey)
+    if (!priorWallet) {
+      carried.forEach(campaign => unchecked.add(campaign.id))
+      continue
+    }
+
+    const carriedIds = new Set(carried.map(campaign => campaign.id))
+    const priorHistory = await readWalletHistory(priorWallet)
+    const carriedHistory: WalletHistory = {
+      payments: priorHistory.payments.filter(p => p.campaignId !== undefined && carriedIds.has(p.campaignId)),
+      tokens: priorHistory.tokens.filter(t => carriedIds.has(t.campaignId))
+    }
+    await identifyHolders(priorWallet, carriedHistory, carried)
+    history.payments.push(...carriedHistory.payments)
+    history.tokens.push(...carriedHistory.tokens)
+  }
+
+  return [...unchecked]
+}
+
+// Compares stored investors with the payments and tokens in the wallet's history.
+// Contributions migrated without a txid cannot be matched to a payment and are not checked.
+export function findDiscrepancies(campaigns: Campaign[], history: WalletHistory): Discrepancy[] {
+  const discrepancies: Discrepancy[] = []
+  const payments = new Map(history.payments.map(payment => [payment.txid, payment]))
+  const contributed = new Set<string>()
+
+  for (const campaign of campaigns) {
+    for (const investor of campaign.investors) {
+      for (const contribution of investor.contributions) {
+        if (!contribution.txid) continue
+        contributed.add(contribution.txid)
+        const payment = payments.get(contribution.txid)
+        const base = { campaignId: campaign.id, identityKey: investor.identityKey, txid: contribution.txid }
+        if (!payment) {
+          discrepancies.push({ type: 'phantom-contribution', ...base, amount: contribution.amount })
+        } else if (payment.amount !== paidAmount(contribution)) {
+          discrepancies.push({ type: 'amount-mismatch', ...base, stored: paidAmount(contribution), paid: payment.amount })
+        }
+      }
+
+      const minted = history.tokens.some(t => t.campaignId === campaign.id && t.holderKey === investor.identityKey)
+      if (investor.redeemed && !minted) {
+        discrepancies.push({ type: 'missing-token', campaignId: campaign.id, identityKey: investor.identityKey })
+      }
+    }
+  }
+
+  for (const payment of history.payments) {
+    if (contributed.has(payment.txid)) continue
+    discrepancies.push({
+      type: 'missing-payment',
+      txid: payment.txid,
+      amount: payment.amount,
+      campaignId: payment.campaignId,
+      identityKey: payment.investorKey
+    })
+  }
+
+  for (const token of history.tokens) {
+    const { campaignId, txid, outputIndex, holderKey } = token
+    if (!holderKey) {
+      discrepancies.push({ type: 'unknown-token', campaignId, txid, outputIndex })
+      continue
+    }
+    const investor = campaigns
+      .find(c => c.id === campaignId)
+      ?.investors.find(inv => inv.identityKey === holderKey)
+    if (!investor?.redeemed) {
+      discrepancies.push({ type: 'unredeemed-token', campaignId, identityKey: holderKey, txid, outputIndex })
+    }
+  }
+
+  return discrepancies
+}
+
+// Campaigns the wallet has payments or tokens for, whether stored or not
+export function walletCampaignIds(history: WalletHistory): string[] {
+  return [...new Set([
+    ...history.payments.flatMap(payment => payment.campaignId ?? []),
+    ...history.tokens.map(token => token.campaignId)
+  ])]
+}
+
+// Rebuilds a campaign's investors from the wallet's history: one contribution per
+// labelled payment, and the token minted for each investor. The stored campaign's
+// terms, status, refunds, transfers and completion are kept, as are contributions
+// migrated without a txid, since the wallet holds no record of them. Payments the
+// store never recorded are credited in full, at the time of the rebuild.
+// A campaign missing from the store is recovered paused, for an operator to review
+// before it takes investments again.
+export function rebuildCampaign(
+  stored: Campaign | undefined,
+  campaignId: string,
+  history: WalletHistory
+): Campaign {
+  const now = Date.now()
+  const campaign: Campaign = stored ? structuredClone(stored) : {
+    id: campaignId,
+    title: `Recovered campaign ${campaignId}`,
+    description: 'Recovered from the backend wallet history',
+    goal: 1,
+    raised: 0,
+    investors: [],
+    status: 'paused',
+    isComplete: false,
+    createdAt: now
+  }
+
+  const storedContributions = new Map<string, Contribution>()
+  const entries: { identityKey: string, contribution: Contribution }[] = []
+  for (const investor of stored?.investors ?? []) {
+    for (const contribution of investor.contributions) {
+      if (contribution.txid) {
+        storedContributions.set(contribution.txid, contribution)
+      } else {
+        entries.push({ identityKey: investor.identityKey, contribution })
+      }
+    }
+  }
+
+  const payments: WalletPaymentRecord[] = history.payments.filter(p => p.campaignId === campaignId && p.investorKey)
+  for (const payment of payments) {
+    const contribution = storedContributions.get(payment.txid)
+    entries.push({
+      identityKey: payment.investorKey!,
+      contribution: contribution && paidAmount(contribution) === payment.amount
+        ? structuredClone(contribution)
+        : { amount: payment.amount, timestamp: contribution?.timestamp ?? now, txid: payment.txid }
+    })
+  }
+
+  campaign.investors = []
+  campaign.raised = 0
+  entries.sort((a, b) => a.contribution.timestamp - b.contribution.timestamp)
+  for (const { identityKey, contribution } of entries) {
+    recordContribution(campaign, identityKey, contribution)
+  }
+
+  const tokens: WalletTokenRecord[] = history.tokens.filter(t => t.campaignId === campaignId)
+  for (const investor of campaign.investors) {
+    const previous = stored?.investors.find(inv => inv.identityKey === investor.identityKey)
+    if (previous?.tier !== undefined) investor.tier = previous.tier
+    if (previous?.refund) investor.refund = previous.refund
+
+    const minted = tokens.find(t => t.holderKey === investor.identityKey)
+    if (!minted) continue
+    investor.redeemed = true
+    // A transferred token is tracked at its latest output
+    investor.token = previous?.token?.holderKey
+      ? previous.token
+      : { txid: minted.txid, outputIndex: minted.outputIndex }
+  }
+
+  if (!stored) {
+    campaign.goal = Math.max(campaign.raised, 1)
+    campaign.isComplete = campaign.investors.length > 0 && campaign.investors.every(inv => inv.redeemed)
+  }
+  return campaign
+}
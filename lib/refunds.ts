@@ -0,0 +1,50 @@
+import { P2PKH, PublicKey, Random, Utils } from '@bsv/sdk'
+import { wallet } from '../src/wallet'
+import { BRC29_PROTOCOL_ID } from './middleware'
+import { Refund } from '../src/types'
+
+// Pay satoshis back to an identity key as a BRC-29 payment, labelling the action.
+// The recipient internalizes output 0 of the returned transaction with the
+// 'wallet payment' protocol, using the derivation data and the backend identity key.
+export async function sendRefund(
+  recipientIdentityKey: string,
+  amount: number,
+  description: string,
+  labels: string[] = []
+): Promise<Refund> {
+  const derivationPrefix = Utils.toBase64(Random(8))
+  const derivationSuffix = Utils.toBase64(Random(8))
+
+  const { publicKey: derivedPublicKey } = await wallet.getPublicKey({
+    counterparty: recipientIdentityKey,
+    protocolID: BRC29_PROTOCOL_ID,
+    keyID: `${derivationPrefix} ${derivationSuffix}`
+  })
+
+  const lockingScript = new P2PKH().lock(PublicKey.fromString(derivedPublicKey).toAddress()).toHex()
+
+  const result = await wallet.createAction({
+    description,
+    labels,
+    outputs: [{
+      lockingScript,
+      satoshis: amount,
+      outputDescription: 'Crowdfunding refund'
+    }],
+    options: {
+      randomizeOutputs: false
+    }
+  })
+
+  if (!result.tx) throw new Error('No refund transaction created')
+
+  return {
+    status: 'sent',
+    amount,
+    txid: result.txid,
+    tx: Utils.toBase64(result.tx),
+    derivationPrefix,
+    derivationSuffix,
+    timestamp: Date.now()
+  }
+}
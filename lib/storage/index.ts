@@ -0,0 +1,221 @@
+import { wallet } from '../../src/wallet'
+import { Campaign } from '../../src/types'
+import { campaignStatus, createCampaign, DEFAULT_CAMPAIGN, isSettled, missedDeadline } from '../crowdfunding'
+import { publishCampaignEvent } from '../events'
+import {
+  applyChange,
+  CampaignChange,
+  creationEvent,
+  EventQuery,
+  LogEvent,
+  NewLogEvent,
+  replayCampaign,
+  replayCampaigns
+} from '../eventLog'
+import { KeyedMutex } from '../mutex'
+import { CampaignStore, CarriedCampaign, KeyRotation } from './types'
+import { JsonCampaignStore, DEFAULT_DATA_FILE } from './jsonStore'
+import { SqliteCampaignStore, DEFAULT_DATABASE_FILE } from './sqliteStore'
+
+export type { CampaignStore, KeyRotation } from './types'
+
+// Campaign of a previous backend identity, archived read-only by a key rotation
+export interface ArchivedCampaign {
+  issuerKey: string
+  archivedAt: number
+  campaign: Campaign
+}
+
+// Storage configuration: 'json' (default) or 'sqlite'
+const storageBackend = process.env.CROWDFUNDING_STORAGE || 'json'
+const dataFile = process.env.CROWDFUNDING_DATA_FILE || DEFAULT_DATA_FILE
+const databaseFile = process.env.CROWDFUNDING_DATABASE || DEFAULT_DATABASE_FILE
+
+// Moves the stored campaigns from the previous backend identity to the new one. Settled
+// campaigns stay archived under the previous identity. Those still running are carried
+// over with their whole event log, and a rotation event naming both identities.
+export async function rotateKey(store: CampaignStore, previousIdentity: string, identity: string) {
+  const rotation: KeyRotation = { previousIdentity, identity, timestamp: Date.now() }
+  const carried: CarriedCampaign[] = []
+  let archived = 0
+
+  const events = await store.listIssuerEvents(previousIdentity)
+  for (const campaign of replayCampaigns(events)) {
+    if (isSettled(campaign)) {
+      archived++
+      continue
+    }
+    const change: CampaignChange = { type: 'issuer-rotated', previousIssuerKey: previousIdentity, issuerKey: identity }
+    const campaignEvents: NewLogEvent[] = events
+      .filter(event => event.campaignId === campaign.id)
+      .map(({ sequence, ...event }) => event)
+    campaignEvents.push({ ...structuredClone(change), campaignId: campaign.id, timestamp: rotation.timestamp })
+    applyChange(campaign, change, rotation.timestamp)
+    carried.push({ campaign, events: campaignEvents })
+  }
+
+  await store.rotateKey(rotation, carried)
+  console.log(`Backend key rotated from ${previousIdentity} to ${identity}`)
+  console.log(`  ${archived} settled campaigns archived, ${carried.length} running campaigns carried over`)
+}
+
+async function openStore(): Promise<CampaignStore> {
+  const { publicKey: walletIdentity } = await wallet.getPublicKey({ identityKey: true })
+
+  let store: CampaignStore
+  if (storageBackend === 'sqlite') {
+    store = await SqliteCampaignStore.open(walletIdentity, databaseFile)
+  } else if (storageBackend === 'json') {
+    store = new JsonCampaignStore(walletIdentity, dataFile)
+  } else {
+    throw new Error(`Unknown CROWDFUNDING_STORAGE "${storageBackend}". Use "json" or "sqlite".`)
+  }
+
+  // A changed backend key is a rotation. A retired key is not taken back into use, as
+  // its campaigns are archived and new ones would be mixed in with them.
+  if ((await store.listKeyRotations()).some(rotation => rotation.previousIdentity === walletIdentity)) {
+    throw new Error(`Backend identity ${walletIdentity} was retired by a key rotation. Use the current key, or another data store.`)
+  }
+  const storedIdentity = await store.storedIdentity()
+  if (storedIdentity && storedIdentity !== walletIdentity) {
+    await rotateKey(store, storedIdentity, walletIdentity)
+  }
+
+  // Seed the default campaign on first run
+  if ((await store.listCampaigns()).length === 0) {
+    const campaign = createCampaign(DEFAULT_CAMPAIGN, 'default')
+    await store.saveCampaign(campaign, [creationEvent(campaign)])
+  }
+
+  // Campaigns stored before the event log existed start their log from their stored state
+  const logged = new Set((await store.listEvents()).map(event => event.campaignId))
+  for (const campaign of await store.listCampaigns()) {
+    if (logged.has(campaign.id)) continue
+    await store.saveCampaign(campaign, [creationEvent(campaign, Date.now())])
+    console.log(`Campaign ${campaign.id} imported into the event log`)
+  }
+
+  console.log(`✓ Campaign storage: ${storageBackend}`)
+  return store
+}
+
+// API routes may be bundled separately, each with its own copy of this module,
+// so the store and the campaign locks are shared through globalThis
+const shared = globalThis as typeof globalThis & {
+  crowdfundingStore?: Promise<CampaignStore>
+  campaignLocks?: KeyedMutex
+}
+const campaignLocks = shared.campaignLocks ??= new KeyedMutex()
+
+export function getStore(): Promise<CampaignStore> {
+  shared.crowdfundingStore ??= openStore().catch(error => {
+    shared.crowdfundingStore = undefined
+    throw error
+  })
+  return shared.crowdfundingStore
+}
+
+// Applies a change to the campaign being updated and logs it. Returns an error
+// message, logging nothing, if the change is not allowed.
+export type RecordChange = (change: CampaignChange) => string | null
+
+// Transactional read-modify-write of one campaign. Updates to the same campaign run
+// one at a time against its state replayed from the event log, and make every change
+// through record. Once the update resolves, the recorded events are appended to the
+// log with the new snapshot, and the new status is published to event subscribers.
+// If the update throws, nothing is saved.
+export async function updateCampaign<T>(
+  id: string,
+  update: (campaign: Campaign, record: RecordChange) => Promise<T> | T
+): Promise<T> {
+  const store = await getStore()
+  return campaignLocks.runExclusive(id, async () => {
+    const campaign = replayCampaign(await store.listEvents({ campaignId: id }))
+    if (!campaign) {
+      throw new Error(`Campaign ${id} not found`)
+    }
+
+    const events: NewLogEvent[] = []
+    const record: RecordChange = change => {
+      const timestamp = Date.now()
+      // Logged as made, whatever later happens to the objects it carries
+      const logged = structuredClone(change)
+      const error = applyChange(campaign, change, timestamp)
+      if (!error) {
+        events.push({ ...logged, campaignId: id, timestamp })
+      }
+      return error
+    }
+
+    const result = await update(campaign, record)
+    if (events.length > 0) {
+      await store.saveCampaign(campaign, events)
+      publishCampaignEvent(id, { type: 'progress', campaign: campaignStatus(campaign) })
+    }
+    return result
+  })
+}
+
+// Stores a new campaign, logging its creation
+export async function addCampaign(campaign: Campaign): Promise<void> {
+  const store = await getStore()
+  await store.saveCampaign(campaign, [creationEvent(campaign)])
+}
+
+// Campaigns that missed their deadline are failed under the lock before being returned
+function refreshDeadline(campaign: Campaign): Promise<Campaign> | Campaign {
+  if (!missedDeadline(campaign)) return campaign
+  return updateCampaign(campaign.id, (current, record) => {
+    if (!record({ type: 'expired' })) {
+      console.log(`Campaign ${current.id} expired at ${current.raised}/${current.goal} sats - marked as failed`)
+    }
+    return current
+  })
+}
+
+// Campaign state is computed by replaying the event log
+export async function getCampaign(id: string): Promise<Campaign | undefined> {
+  const store = await getStore()
+  const campaign = replayCampaign(await store.listEvents({ campaignId: id }))
+  return campaign && refreshDeadline(campaign)
+}
+
+export async function listCampaigns(): Promise<Campaign[]> {
+  const store = await getStore()
+  const campaigns = replayCampaigns(await store.listEvents())
+  return Promise.all(campaigns.map(refreshDeadline))
+}
+
+export async function listEvents(query?: EventQuery): Promise<LogEvent[]> {
+  const store = await getStore()
+  return store.listEvents(query)
+}
+
+export async function listKeyRotations(): Promise<KeyRotation[]> {
+  const store = await getStore()
+  return store.listKeyRotations()
+}
+
+// Archived campaigns are replayed from the previous identity's log as it was when the
+// key was rotated. Running campaigns it carried over are left out, as they live on.
+export async function getArchivedCampaign(issuerKey: string, id: string): Promise<ArchivedCampaign | undefined> {
+  return (await listArchivedCampaigns(issuerKey)).find(archived => archived.campaign.id === id)
+}
+
+export async function listArchivedCampaigns(issuerKey?: string): Promise<ArchivedCampaign[]> {
+  const store = await getStore()
+  const carried = new Set((await listCampaigns()).flatMap(campaign =>
+    (campaign.priorIssuerKeys ?? []).map(key => `${key} ${campaign.id}`)
+  ))
+
+  const archived: ArchivedCampaign[] = []
+  for (const rotation of await store.listKeyRotations()) {
+    if (issuerKey !== undefined && rotation.previousIdentity !== issuerKey) continue
+    const campaigns = replayCampaigns(await store.listIssuerEvents(rotation.previousIdentity))
+    for (const campaign of campaigns) {
+      if (carried.has(`${rotation.previousIdentity} ${campaign.id}`)) continue
+      archived.push({ issuerKey: rotation.previousIdentity, archivedAt: rotation.timestamp, campaign })
+    }
+  }
+  return archived
+}
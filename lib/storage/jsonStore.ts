@@ -0,0 +1,195 @@
+import { readFileSync, writeFileSync, existsSync, renameSync, copyFileSync } from 'fs'
+import { join } from 'path'
+import { Campaign, Investor } from '../../src/types'
+import { createCampaign, DEFAULT_CAMPAIGN } from '../crowdfunding'
+import { EventQuery, LogEvent, NewLogEvent } from '../eventLog'
+import { CampaignStore, CarriedCampaign, KeyRotation } from './types'
+
+export const DEFAULT_DATA_FILE = join(process.cwd(), 'crowdfunding-data.json')
+
+// Single-campaign state written by earlier versions of the demo
+interface LegacyCrowdfundingState {
+  goal: number
+  raised: number
+  investors: Investor[]
+  isComplete: boolean
+  completionTxid?: string
+}
+
+// Campaigns and log of a previous backend identity, archived when its key was rotated
+export interface IssuerArchive {
+  walletIdentity: string
+  rotatedTo: string
+  rotatedAt: number
+  campaigns: Campaign[]
+  events: LogEvent[]
+}
+
+export interface StoredData {
+  walletIdentity: string
+  campaigns?: Campaign[]
+  events?: LogEvent[]
+  archives?: IssuerArchive[]
+  crowdfunding?: LegacyCrowdfundingState
+}
+
+function migrateLegacyState(legacy: LegacyCrowdfundingState): Campaign {
+  console.log('Migrating single-campaign crowdfunding data to campaign "default"')
+  return {
+    ...createCampaign({ ...DEFAULT_CAMPAIGN, goal: legacy.goal }, 'default'),
+    raised: legacy.raised,
+    investors: legacy.investors,
+    isComplete: legacy.isComplete,
+    completionTxid: legacy.completionTxid
+  }
+}
+
+// Fill in fields added after a campaign was first stored
+function normalizeCampaign(campaign: Campaign): Campaign {
+  return {
+    ...campaign,
+    status: campaign.status ?? 'active',
+    investors: campaign.investors.map(investor => ({
+      ...investor,
+      contributions: investor.contributions ?? [{ amount: investor.amount, timestamp: investor.timestamp }]
+    }))
+  }
+}
+
+function filterEvents(events: LogEvent[], { campaignId, after = 0, limit }: EventQuery): LogEvent[] {
+  const matching = events.filter(event =>
+    event.sequence > after && (campaignId === undefined || event.campaignId === campaignId)
+  )
+  return limit === undefined ? matching : matching.slice(0, limit)
+}
+
+// Last sequence number used by the log or, when a key rotation emptied it, by the
+// archived logs, so sequences are never used twice
+function lastSequence(events: LogEvent[], archives: IssuerArchive[]): number {
+  return events.at(-1)?.sequence ??
+    Math.max(0, ...archives.map(archive => archive.events.at(-1)?.sequence ?? 0))
+}
+
+// Read the campaigns stored in a JSON data file, migrating older formats.
+// Returns undefined when the file doesn't exist.
+export function readDataFile(dataFile: string): StoredData | undefined {
+  if (!existsSync(dataFile)) return undefined
+
+  const stored: StoredData = JSON.parse(readFileSync(dataFile, 'utf-8'))
+
+  const campaigns = stored.campaigns
+    ? stored.campaigns
+    : stored.crowdfunding
+      ? [migrateLegacyState(stored.crowdfunding)]
+      : []
+
+  return {
+    walletIdentity: stored.walletIdentity,
+    campaigns: campaigns.map(normalizeCampaign),
+    events: stored.events ?? [],
+    archives: stored.archives ?? []
+  }
+}
+
+// Stores every campaign and the event log in one JSON file, along with the archives of
+// previous backend identities. The file is re-read on every call so that separately
+// bundled API routes always see the latest state.
+export class JsonCampaignStore implements CampaignStore {
+  constructor(
+    private readonly walletIdentity: string,
+    private readonly dataFile = DEFAULT_DATA_FILE
+  ) {}
+
+  async listCampaigns(): Promise<Campaign[]> {
+    return this.read().campaigns
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    return this.read().campaigns.find(campaign => campaign.id === id)
+  }
+
+  async saveCampaign(campaign: Campaign, newEvents: NewLogEvent[] = []): Promise<void> {
+    const { campaigns, events, archives } = this.read()
+    const index = campaigns.findIndex(c => c.id === campaign.id)
+    if (index === -1) {
+      campaigns.push(campaign)
+    } else {
+      campaigns[index] = campaign
+    }
+    const last = lastSequence(events, archives)
+    events.push(...newEvents.map((event, i) => ({ ...event, sequence: last + i + 1 })))
+    this.write({ walletIdentity: this.walletIdentity, campaigns, events, archives })
+  }
+
+  async listEvents(query: EventQuery = {}): Promise<LogEvent[]> {
+    return filterEvents(this.read().events, query)
+  }
+
+  async storedIdentity(): Promise<string | undefined> {
+    return readDataFile(this.dataFile)?.walletIdentity
+  }
+
+  async listIssuerEvents(identity: string, query: EventQuery = {}): Promise<LogEvent[]> {
+    const stored = readDataFile(this.dataFile)
+    if (!stored) return []
+    const events = stored.walletIdentity === identity
+      ? stored.events
+      : stored.archives!.filter(archive => archive.walletIdentity === identity).at(-1)?.events
+    return filterEvents(events ?? [], query)
+  }
+
+  async rotateKey(rotation: KeyRotation, carried: CarriedCampaign[]): Promise<void> {
+    const stored = readDataFile(this.dataFile)
+    if (stored?.walletIdentity !== rotation.previousIdentity || rotation.identity !== this.walletIdentity) {
+      throw new Error(`${this.dataFile} does not hold the campaigns of ${rotation.previousIdentity}`)
+    }
+
+    const archive: IssuerArchive = {
+      walletIdentity: rotation.previousIdentity,
+      rotatedTo: rotation.identity,
+      rotatedAt: rotation.timestamp,
+      campaigns: stored.campaigns!,
+      events: stored.events!
+    }
+    // Sequences continue from the archived log, so readers paging by sequence never see
+    // a number again
+    const last = lastSequence(stored.events!, stored.archives!)
+    this.write({
+      walletIdentity: this.walletIdentity,
+      campaigns: carried.map(({ campaign }) => campaign),
+      events: carried.flatMap(({ events }) => events).map((event, i) => ({ ...event, sequence: last + i + 1 })),
+      archives: [...stored.archives!, archive]
+    })
+  }
+
+  async listKeyRotations(): Promise<KeyRotation[]> {
+    return (readDataFile(this.dataFile)?.archives ?? []).map(archive => ({
+      previousIdentity: archive.walletIdentity,
+      identity: archive.rotatedTo,
+      timestamp: archive.rotatedAt
+    }))
+  }
+
+  async close(): Promise<void> {}
+
+  // Saving under another identity would overwrite its campaigns, so a file still held
+  // by the previous identity is only readable through listIssuerEvents until rotateKey
+  private read(): { campaigns: Campaign[], events: LogEvent[], archives: IssuerArchive[] } {
+    const stored = readDataFile(this.dataFile)
+    if (stored && stored.walletIdentity !== this.walletIdentity) {
+      throw new Error(`${this.dataFile} holds the campaigns of backend identity ${stored.walletIdentity}, not ${this.walletIdentity}`)
+    }
+    return { campaigns: stored?.campaigns ?? [], events: stored?.events ?? [], archives: stored?.archives ?? [] }
+  }
+
+  // Write to a temporary file and rename it over the data file so a failed write
+  // never leaves a truncated file behind. The previous version is kept as a .bak file.
+  private write(stored: StoredData) {
+    const tempFile = `${this.dataFile}.tmp`
+    writeFileSync(tempFile, JSON.stringify(stored, null, 2), 'utf-8')
+    if (existsSync(this.dataFile)) {
+      copyFileSync(this.dataFile, `${this.dataFile}.bak`)
+    }
+    renameSync(tempFile, this.dataFile)
+  }
+}
@@ -0,0 +1,357 @@
+import knex, { Knex } from 'knex'
+import { join } from 'path'
+import { Campaign, Contribution, Investor } from '../../src/types'
+import { EventQuery, LogEvent, NewLogEvent } from '../eventLog'
+import { CampaignStore, CarriedCampaign, KeyRotation } from './types'
+
+export const DEFAULT_DATABASE_FILE = join(process.cwd(), 'crowdfunding.sqlite')
+
+// Add columns introduced after a table was first created
+async function addMissingColumns(
+  db: Knex,
+  tableName: string,
+  columns: Record<string, (table: Knex.CreateTableBuilder) => void>
+) {
+  for (const [column, define] of Object.entries(columns)) {
+    if (!(await db.schema.hasColumn(tableName, column))) {
+      await db.schema.alterTable(tableName, define)
+    }
+  }
+}
+
+async function ensureSchema(db: Knex) {
+  if (!(await db.schema.hasTable('campaigns'))) {
+    await db.schema.createTable('campaigns', table => {
+      table.string('wallet_identity').notNullable()
+      table.string('id').notNullable()
+      table.string('title').notNullable()
+      table.text('description').notNullable().defaultTo('')
+      table.bigInteger('goal').notNullable()
+      table.bigInteger('raised').notNullable().defaultTo(0)
+      table.string('status').notNullable().defaultTo('active')
+      table.bigInteger('deadline').nullable()
+      table.boolean('is_complete').notNullable().defaultTo(false)
+      table.string('completion_txid').nullable()
+      table.bigInteger('created_at').notNullable()
+      table.primary(['wallet_identity', 'id'])
+    })
+  }
+
+  if (!(await db.schema.hasTable('investors'))) {
+    await db.schema.createTable('investors', table => {
+      table.string('wallet_identity').notNullable()
+      table.string('campaign_id').notNullable()
+      table.string('identity_key').notNullable()
+      table.integer('position').notNullable()
+      table.bigInteger('amount').notNullable()
+      table.bigInteger('timestamp').notNullable()
+      table.boolean('redeemed').notNullable().defaultTo(false)
+      table.text('refund').nullable()
+      table.primary(['wallet_identity', 'campaign_id', 'identity_key'])
+    })
+  }
+
+  if (!(await db.schema.hasTable('contributions'))) {
+    await db.schema.createTable('contributions', table => {
+      table.increments('id')
+      table.string('wallet_identity').notNullable()
+      table.string('campaign_id').notNullable()
+      table.string('identity_key').notNullable()
+      table.integer('position').notNullable()
+      table.bigInteger('amount').notNullable()
+      table.bigInteger('timestamp').notNullable()
+      table.index(['wallet_identity', 'campaign_id'])
+    })
+  }
+
+  // Append-only: rows are never updated or deleted
+  if (!(await db.schema.hasTable('events'))) {
+    await db.schema.createTable('events', table => {
+      table.string('wallet_identity').notNullable()
+      table.integer('sequence').notNullable()
+      table.string('campaign_id').notNullable()
+      table.string('type').notNullable()
+      table.bigInteger('timestamp').notNullable()
+      table.text('data').notNullable()
+      table.primary(['wallet_identity', 'sequence'])
+      table.index(['wallet_identity', 'campaign_id'])
+    })
+  }
+
+  // A retired identity is never rotated to again, so it is the key
+  if (!(await db.schema.hasTable('key_rotations'))) {
+    await db.schema.createTable('key_rotations', table => {
+      table.string('previous_identity').primary()
+      table.string('identity').notNullable()
+      table.bigInteger('timestamp').notNullable()
+    })
+  }
+
+  await addMissingColumns(db, 'campaigns', {
+    distribution: table => table.text('distribution').nullable(),
+    transfers: table => table.text('transfers').nullable(),
+    min_investment: table => table.bigInteger('min_investment').nullable(),
+    max_investment: table => table.bigInteger('max_investment').nullable(),
+    hard_cap: table => table.bigInteger('hard_cap').nullable(),
+    tiers: table => table.text('tiers').nullable(),
+    prior_issuer_keys: table => table.text('prior_issuer_keys').nullable()
+  })
+
+  await addMissingColumns(db, 'investors', {
+    token: table => table.text('token').nullable(),
+    tier: table => table.string('tier').nullable()
+  })
+
+  await addMissingColumns(db, 'contributions', {
+    txid: table => table.string('txid').nullable().index(),
+    derivation_prefix: table => table.string('derivation_prefix').nullable(),
+    derivation_suffix: table => table.string('derivation_suffix').nullable(),
+    excess_refund: table => table.text('excess_refund').nullable()
+  })
+}
+
+function toCampaign(row: any, investors: Investor[]): Campaign {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    goal: Number(row.goal),
+    raised: Number(row.raised),
+    investors,
+    status: row.status,
+    deadline: row.deadline === null ? undefined : Number(row.deadline),
+    minInvestment: row.min_investment === null ? undefined : Number(row.min_investment),
+    maxInvestment: row.max_investment === null ? undefined : Number(row.max_investment),
+    hardCap: row.hard_cap === null ? undefined : Number(row.hard_cap),
+    tiers: row.tiers ? JSON.parse(row.tiers) : undefined,
+    isComplete: Boolean(row.is_complete),
+    completionTxid: row.completion_txid ?? undefined,
+    distribution: row.distribution ? JSON.parse(row.distribution) : undefined,
+    transfers: row.transfers ? JSON.parse(row.transfers) : undefined,
+    priorIssuerKeys: row.prior_issuer_keys ? JSON.parse(row.prior_issuer_keys) : undefined,
+    createdAt: Number(row.created_at)
+  }
+}
+
+function toEvent(row: any): LogEvent {
+  return {
+    ...JSON.parse(row.data),
+    type: row.type,
+    sequence: Number(row.sequence),
+    campaignId: row.campaign_id,
+    timestamp: Number(row.timestamp)
+  }
+}
+
+function toInvestor(row: any, contributions: Contribution[]): Investor {
+  const investor: Investor = {
+    identityKey: row.identity_key,
+    amount: Number(row.amount),
+    timestamp: Number(row.timestamp),
+    contributions
+  }
+  if (row.redeemed) investor.redeemed = true
+  if (row.tier) investor.tier = row.tier
+  if (row.token) investor.token = JSON.parse(row.token)
+  if (row.refund) investor.refund = JSON.parse(row.refund)
+  return investor
+}
+
+function toContribution(row: any): Contribution {
+  const contribution: Contribution = {
+    amount: Number(row.amount),
+    timestamp: Number(row.timestamp)
+  }
+  if (row.txid) contribution.txid = row.txid
+  if (row.derivation_prefix) contribution.derivationPrefix = row.derivation_prefix
+  if (row.derivation_suffix) contribution.derivationSuffix = row.derivation_suffix
+  if (row.excess_refund) contribution.excessRefund = JSON.parse(row.excess_refund)
+  return contribution
+}
+
+// Embedded SQLite storage with one row per campaign, investor, contribution and
+// logged event. Each saveCampaign runs in a single transaction. Rows are keyed by the
+// backend identity, so a previous identity's rows are its archive after a key rotation.
+export class SqliteCampaignStore implements CampaignStore {
+  private constructor(
+    private readonly db: Knex,
+    private readonly walletIdentity: string
+  ) {}
+
+  static async open(walletIdentity: string, filename = DEFAULT_DATABASE_FILE): Promise<SqliteCampaignStore> {
+    const db = knex({
+      client: 'sqlite3',
+      connection: { filename },
+      useNullAsDefault: true
+    })
+    await ensureSchema(db)
+    return new SqliteCampaignStore(db, walletIdentity)
+  }
+
+  async listCampaigns(): Promise<Campaign[]> {
+    const rows = await this.db('campaigns')
+      .where({ wallet_identity: this.walletIdentity })
+      .orderBy('created_at')
+    return Promise.all(rows.map(row => this.loadCampaign(row)))
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    const row = await this.db('campaigns')
+      .where({ wallet_identity: this.walletIdentity, id })
+      .first()
+    return row && this.loadCampaign(row)
+  }
+
+  async saveCampaign(campaign: Campaign, events: NewLogEvent[] = []): Promise<void> {
+    await this.db.transaction(trx => this.save(trx, campaign, events))
+  }
+
+  async listEvents(query: EventQuery = {}): Promise<LogEvent[]> {
+    return this.queryEvents(this.walletIdentity, query)
+  }
+
+  async storedIdentity(): Promise<string | undefined> {
+    if (await this.db('events').where({ wallet_identity: this.walletIdentity }).first()) {
+      return this.walletIdentity
+    }
+    const rotation = await this.db('key_rotations').orderBy('timestamp', 'desc').first()
+    if (rotation) return rotation.identity
+    // Databases written before rotations were recorded keep each identity's campaigns
+    // side by side. The identity that logged last ran them.
+    const latest = await this.db('events').orderBy('timestamp', 'desc').first()
+    return latest?.wallet_identity
+  }
+
+  async listIssuerEvents(identity: string, query: EventQuery = {}): Promise<LogEvent[]> {
+    return this.queryEvents(identity, query)
+  }
+
+  async rotateKey(rotation: KeyRotation, carried: CarriedCampaign[]): Promise<void> {
+    if (rotation.identity !== this.walletIdentity) {
+      throw new Error(`Key rotation to ${rotation.identity} saved through the store of ${this.walletIdentity}`)
+    }
+    await this.db.transaction(async trx => {
+      await trx('key_rotations').insert({
+        previous_identity: rotation.previousIdentity,
+        identity: rotation.identity,
+        timestamp: rotation.timestamp
+      })
+      for (const { campaign, events } of carried) {
+        await this.save(trx, campaign, events)
+      }
+    })
+  }
+
+  async listKeyRotations(): Promise<KeyRotation[]> {
+    const rows = await this.db('key_rotations').orderBy('timestamp')
+    return rows.map(row => ({
+      previousIdentity: row.previous_identity,
+      identity: row.identity,
+      timestamp: Number(row.timestamp)
+    }))
+  }
+
+  async close(): Promise<void> {
+    await this.db.destroy()
+  }
+
+  private async save(trx: Knex.Transaction, campaign: Campaign, events: NewLogEvent[]) {
+    const key = { wallet_identity: this.walletIdentity, campaign_id: campaign.id }
+
+    await trx('campaigns')
+      .insert({
+        wallet_identity: this.walletIdentity,
+        id: campaign.id,
+        title: campaign.title,
+        description: campaign.description,
+        goal: campaign.goal,
+        raised: campaign.raised,
+        status: campaign.status,
+        deadline: campaign.deadline ?? null,
+        min_investment: campaign.minInvestment ?? null,
+        max_investment: campaign.maxInvestment ?? null,
+        hard_cap: campaign.hardCap ?? null,
+        tiers: campaign.tiers ? JSON.stringify(campaign.tiers) : null,
+        is_complete: campaign.isComplete,
+        completion_txid: campaign.completionTxid ?? null,
+        distribution: campaign.distribution ? JSON.stringify(campaign.distribution) : null,
+        transfers: campaign.transfers ? JSON.stringify(campaign.transfers) : null,
+        prior_issuer_keys: campaign.priorIssuerKeys ? JSON.stringify(campaign.priorIssuerKeys) : null,
+        created_at: campaign.createdAt
+      })
+      .onConflict(['wallet_identity', 'id'])
+      .merge()
+
+    await trx('investors').where(key).delete()
+    await trx('contributions').where(key).delete()
+
+    for (const [position, investor] of campaign.investors.entries()) {
+      await trx('investors').insert({
+        ...key,
+        identity_key: investor.identityKey,
+        position,
+        amount: investor.amount,
+        timestamp: investor.timestamp,
+        redeemed: investor.redeemed === true,
+        tier: investor.tier ?? null,
+        token: investor.token ? JSON.stringify(investor.token) : null,
+        refund: investor.refund ? JSON.stringify(investor.refund) : null
+      })
+
+      for (const [contributionPosition, contribution] of investor.contributions.entries()) {
+        await trx('contributions').insert({
+          ...key,
+          identity_key: investor.identityKey,
+          position: contributionPosition,
+          amount: contribution.amount,
+          timestamp: contribution.timestamp,
+          txid: contribution.txid ?? null,
+          derivation_prefix: contribution.derivationPrefix ?? null,
+          derivation_suffix: contribution.derivationSuffix ?? null,
+          excess_refund: contribution.excessRefund ? JSON.stringify(contribution.excessRefund) : null
+        })
+      }
+    }
+
+    // Numbered after every identity's events, so the log carries on from the archived
+    // one after a key rotation
+    const last = await trx('events')
+      .max('sequence as sequence')
+      .first()
+    let sequence = Number(last?.sequence ?? 0)
+    for (const { type, campaignId, timestamp, ...data } of events) {
+      await trx('events').insert({
+        wallet_identity: this.walletIdentity,
+        sequence: ++sequence,
+        campaign_id: campaignId,
+        type,
+        timestamp,
+        data: JSON.stringify(data)
+      })
+    }
+  }
+
+  private async queryEvents(identity: string, { campaignId, after = 0, limit }: EventQuery): Promise<LogEvent[]> {
+    const query = this.db('events')
+      .where({ wallet_identity: identity })
+      .andWhere('sequence', '>', after)
+      .orderBy('sequence')
+    if (campaignId !== undefined) query.andWhere({ campaign_id: campaignId })
+    if (limit !== undefined) query.limit(limit)
+    return (await query).map(toEvent)
+  }
+
+  private async loadCampaign(row: any): Promise<Campaign> {
+    const key = { wallet_identity: this.walletIdentity, campaign_id: row.id }
+    const investorRows = await this.db('investors').where(key).orderBy('position')
+    const contributionRows = await this.db('contributions').where(key).orderBy('position')
+
+    const investors = investorRows.map(investorRow => toInvestor(
+      investorRow,
+      contributionRows
+        .filter(contributionRow => contributionRow.identity_key === investorRow.identity_key)
+        .map(toContribution)
+    ))
+    return toCampaign(row, investors)
+  }
+}
@@ -0,0 +1,44 @@
+import { Campaign } from '../../src/types'
+import { EventQuery, LogEvent, NewLogEvent } from '../eventLog'
+
+// Change of the backend wallet key. The previous identity's campaigns stay archived
+// under it, read-only, and the ones still running are carried over to the new identity.
+export interface KeyRotation {
+  previousIdentity: string
+  identity: string
+  // Unix milliseconds
+  timestamp: number
+}
+
+// Campaign carried over to the new identity by a key rotation, with the events to log
+// for it there
+export interface CarriedCampaign {
+  campaign: Campaign
+  events: NewLogEvent[]
+}
+
+// Persistence for the campaigns run by one backend wallet identity: the append-only
+// event log, and a snapshot of each campaign's latest state.
+// Adapters must make saveCampaign atomic: a failed save leaves the previous state and
+// log intact and rejects, so callers can surface the error instead of carrying on.
+export interface CampaignStore {
+  listCampaigns(): Promise<Campaign[]>
+  getCampaign(id: string): Promise<Campaign | undefined>
+  // Saves the snapshot and appends the events that led to it, numbering them after
+  // the last logged event, including those archived by a key rotation
+  saveCampaign(campaign: Campaign, events?: NewLogEvent[]): Promise<void>
+  // Logged events in sequence order
+  listEvents(query?: EventQuery): Promise<LogEvent[]>
+  // Identity that last ran the stored campaigns, undefined while nothing is stored.
+  // When it is not the store's own identity, the key was rotated and the store must be
+  // moved over with rotateKey before anything else is read or saved.
+  storedIdentity(): Promise<string | undefined>
+  // Logged events of another identity, the one still stored or an archived one
+  listIssuerEvents(identity: string, query?: EventQuery): Promise<LogEvent[]>
+  // Archives the previous identity's campaigns and log, and saves the carried over
+  // campaigns under the store's identity, in one step
+  rotateKey(rotation: KeyRotation, carried: CarriedCampaign[]): Promise<void>
+  // Key rotations, oldest first
+  listKeyRotations(): Promise<KeyRotation[]>
+  close(): Promise<void>
+}
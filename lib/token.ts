@@ -0,0 +1,243 @@
+import {
+  BigNumber,
+  ECDSA,
+  Hash,
+  LockingScript,
+  PrivateKey,
+  PublicKey,
+  PushDrop,
+  Signature,
+  Utils,
+  WalletInterface,
+  WalletProtocol
+} from '@bsv/sdk'
+
+// Crowdfunding token schema, shared by the backend (issuance) and the frontend (display).
+//
+// PushDrop fields, in order:
+//   0. tag         - 'crowdfunding' (utf8)
+//   1. version     - schema version (single byte)
+//   2. campaignId  - campaign the token was issued for (utf8)
+//   3. issuerKey   - identity key of the issuing backend wallet (hex)
+//   4. payload     - TokenPayload as JSON, encrypted for the holder
+//   5. lockerKey   - identity key that locked this output (hex), since version 2
+//
+// The locker is the issuer for newly minted tokens and the previous holder for
+// transferred ones. It encrypts the payload and locks the output with
+// counterparty = holder, so the holder decrypts and unlocks with counterparty = lockerKey.
+// Version 1 tokens have no lockerKey field and were always locked by the issuer.
+
+export const TOKEN_TAG = 'crowdfunding'
+export const TOKEN_VERSION = 2
+export const TOKEN_PROTOCOL_ID: WalletProtocol = [0, 'token list']
+export const TOKEN_KEY_ID = '1'
+// Protocol the wallet encrypts a revealed token key linkage under (BRC-69)
+export const TOKEN_LINKAGE_PROTOCOL_ID: WalletProtocol = [
+  2,
+  `specific linkage revelation ${TOKEN_PROTOCOL_ID[0]} ${TOKEN_PROTOCOL_ID[1]}`
+]
+// Length of a PushDrop unlocking script: a single DER signature push
+export const TOKEN_UNLOCKING_SCRIPT_LENGTH = 73
+
+export interface TokenPayload {
+  campaignId: string
+  // Satoshis the holder invested
+  amount: number
+  // Holder's fraction of the total raise at issuance, between 0 and 1
+  share: number
+  // Issuance time in Unix milliseconds
+  issuedAt: number
+  issuerKey: string
+  // Reward tier the holder invested for, if the campaign has tiers
+  tier?: {
+    name: string
+    perk: string
+  }
+}
+
+// Plaintext fields of a token, before its payload is decrypted
+export interface DecodedToken {
+  version: number
+  campaignId: string
+  issuerKey: string
+  lockerKey: string
+  ciphertext: number[]
+}
+
+// Locks a token to holderKey with the wallet's identity as locker. Used both to
+// mint tokens (issuer wallet) and to transfer them (holder wallet).
+export async function createTokenLockingScript(
+  wallet: WalletInterface,
+  holderKey: string,
+  payload: TokenPayload
+): Promise<LockingScript> {
+  const { publicKey: lockerKey } = await wallet.getPublicKey({ identityKey: true })
+  const { ciphertext } = await wallet.encrypt({
+    plaintext: Utils.toArray(JSON.stringify(payload), 'utf8'),
+    protocolID: TOKEN_PROTOCOL_ID,
+    keyID: TOKEN_KEY_ID,
+    counterparty: holderKey
+  })
+
+  return new PushDrop(wallet).lock(
+    [
+      Utils.toArray(TOKEN_TAG, 'utf8'),
+      [TOKEN_VERSION],
+      Utils.toArray(payload.campaignId, 'utf8'),
+      Utils.toArray(payload.issuerKey, 'hex'),
+      ciphertext,
+      Utils.toArray(lockerKey, 'hex')
+    ],
+    TOKEN_PROTOCOL_ID,
+    TOKEN_KEY_ID,
+    holderKey
+  )
+}
+
+// Reads the plaintext fields of a token. Returns undefined for scripts that are
+// not crowdfunding tokens, including tokens issued before the schema was versioned.
+export function decodeToken(lockingScript: LockingScript): DecodedToken | undefined {
+  let fields: number[][]
+  try {
+    fields = PushDrop.decode(lockingScript).fields
+  } catch {
+    return undefined
+  }
+
+  // The trailing field is the locker's PushDrop signature
+  if (fields.length < 6 || Utils.toUTF8(fields[0]) !== TOKEN_TAG) {
+    return undefined
+  }
+
+  const version = fields[1][0]
+  if (version !== 1 && !(version === TOKEN_VERSION && fields.length >= 7)) {
+    return undefined
+  }
+
+  const issuerKey = Utils.toHex(fields[3])
+  return {
+    version,
+    campaignId: Utils.toUTF8(fields[2]),
+    issuerKey,
+    lockerKey: version === 1 ? issuerKey : Utils.toHex(fields[5]),
+    ciphertext: fields[4]
+  }
+}
+
+// Decrypts a token payload as its holder and checks it against the plaintext fields
+export async function decryptTokenPayload(
+  wallet: WalletInterface,
+  token: DecodedToken
+): Promise<TokenPayload> {
+  const { plaintext } = await wallet.decrypt({
+    ciphertext: token.ciphertext,
+    protocolID: TOKEN_PROTOCOL_ID,
+    keyID: TOKEN_KEY_ID,
+    counterparty: token.lockerKey
+  })
+
+  const payload: TokenPayload = JSON.parse(Utils.toUTF8(plaintext))
+  if (payload.campaignId !== token.campaignId || payload.issuerKey !== token.issuerKey) {
+    throw new Error('Token payload does not match its plaintext fields')
+  }
+  return payload
+}
+
+// Checks that an output was locked to holderKey and signed by the wallet as locker, as
+// createTokenLockingScript does: the locking key must be the holder's key derived for
+// the wallet, and the PushDrop signature over the fields must be the wallet's
+export async function verifyTokenLock(
+  wallet: Pick<WalletInterface, 'getPublicKey' | 'verifySignature'>,
+  lockingScript: LockingScript,
+  holderKey: string
+): Promise<boolean> {
+  const { lockingPublicKey, fields } = PushDrop.decode(lockingScript)
+  const signature = fields.pop()!
+
+  const { publicKey: expectedKey } = await wallet.getPublicKey({
+    protocolID: TOKEN_PROTOCOL_ID,
+    keyID: TOKEN_KEY_ID,
+    counterparty: holderKey
+  })
+  if (lockingPublicKey.toString() !== expectedKey) {
+    return false
+  }
+
+  try {
+    const { valid } = await wallet.verifySignature({
+      data: fields.flat(),
+      signature,
+      protocolID: TOKEN_PROTOCOL_ID,
+      keyID: TOKEN_KEY_ID,
+      counterparty: holderKey,
+      forSelf: true
+    })
+    return valid
+  } catch {
+    return false
+  }
+}
+
+// Stands in for a locker's wallet in verifyTokenLock, for a verifier the locker revealed
+// the key linkage with the holder to (revealSpecificKeyLinkage). Both the holder's locking
+// key and the locker's signing key are their identity keys offset by that linkage.
+export async function linkedLockVerifier(
+  verifier: WalletInterface,
+  lockerKey: string,
+  encryptedLinkage: number[]
+): Promise<Pick<WalletInterface, 'getPublicKey' | 'verifySignature'>> {
+  const { plaintext: linkage } = await verifier.decrypt({
+    ciphertext: encryptedLinkage,
+    protocolID: TOKEN_LINKAGE_PROTOCOL_ID,
+    keyID: TOKEN_KEY_ID,
+    counterparty: lockerKey
+  })
+  const offset = new PrivateKey(linkage).toPublicKey()
+  const linked = (identityKey: string) => {
+    const point = PublicKey.fromString(identityKey).add(offset)
+    return new PublicKey(point.x, point.y)
+  }
+
+  return {
+    async getPublicKey({ counterparty }) {
+      if (typeof counterparty !== 'string' || counterparty === 'self' || counterparty === 'anyone') {
+        throw new Error('Key linkage is only known for the holder')
+      }
+      return { publicKey: linked(counterparty).toString() }
+    },
+    async verifySignature({ data = [], signature }) {
+      if (!ECDSA.verify(new BigNumber(Hash.sha256(data)), Signature.fromDER(signature), linked(lockerKey))) {
+        throw new Error('Signature is not valid')
+      }
+      return { valid: true }
+    }
+  }
+}
+
+// Unlocking script template for spending a token output as its holder
+export function tokenUnlocker(
+  wallet: WalletInterface,
+  token: DecodedToken,
+  lockingScript: LockingScript,
+  satoshis: number
+) {
+  return new PushDrop(wallet).unlock(
+    TOKEN_PROTOCOL_ID,
+    TOKEN_KEY_ID,
+    token.lockerKey,
+    'all',
+    false,
+    satoshis,
+    lockingScript
+  )
+}
+
+// Custom instructions stored with the token output when the holder internalizes it,
+// so the wallet knows how to unlock it later
+export function tokenCustomInstructions(lockerKey: string): string {
+  return JSON.stringify({
+    protocolID: TOKEN_PROTOCOL_ID,
+    keyID: TOKEN_KEY_ID,
+    counterparty: lockerKey
+  })
+}
@@ -0,0 +1,168 @@
+import { Beef, Transaction } from '@bsv/sdk'
+import { priorIssuerWallets, wallet, walletServices } from '../src/wallet'
+import { Campaign, Investor, TokenTransfer } from '../src/types'
+import { getArchivedCampaign, getCampaign } from './storage'
+import { findTokenHolding, holderOf } from './crowdfunding'
+import { decodeToken, verifyTokenLock } from './token'
+
+// 'unspent': the output currently holds the stake according to the cap table
+// 'transferred': the holder transferred the token on through the app
+// 'spent': the cap table still points at the output, but it was spent on chain
+export type TokenOutputStatus = 'unspent' | 'transferred' | 'spent'
+
+export interface TokenVerification {
+  verified: boolean
+  // Why the token could not be verified
+  reason?: string
+  outpoint: string
+  campaignId?: string
+  campaignTitle?: string
+  issuerKey?: string
+  // The campaign was settled and archived under its issuer by a key rotation
+  archived?: boolean
+  // Investor whose stake the token represents
+  investorKey?: string
+  // Identity the output is locked to
+  holderKey?: string
+  amount?: number
+  status?: TokenOutputStatus
+  transferredTo?: string
+  transferTxid?: string
+}
+
+interface LocatedOutput {
+  investor: Investor
+  holderKey: string
+  transferredBy?: TokenTransfer
+}
+
+// Find which investor's stake an output carries, from the cap table and the transfer history
+function locateOutput(campaign: Campaign, txid: string, outputIndex: number): LocatedOutput | undefined {
+  const current = findTokenHolding(campaign, txid, outputIndex)
+  if (current) {
+    return { investor: current, holderKey: holderOf(current) }
+  }
+
+  const outpoint = `${txid}.${outputIndex}`
+  const transfer = campaign.transfers?.find(t => t.spentOutpoint === outpoint)
+  const investor = transfer && campaign.investors.find(inv => inv.identityKey === transfer.investorKey)
+  if (transfer && investor) {
+    return { investor, holderKey: transfer.fromKey, transferredBy: transfer }
+  }
+  return undefined
+}
+
+// Campaign a token was issued for: by the current backend key, by a prior key for a
+// campaign carried over on rotation, or by a prior key for a campaign it archived
+async function findIssuedCampaign(
+  campaignId: string,
+  issuerKey: string,
+  currentKey: string
+): Promise<{ campaign?: Campaign, archived?: boolean }> {
+  const campaign = await getCampaign(campaignId)
+  if (issuerKey === currentKey || campaign?.priorIssuerKeys?.includes(issuerKey)) {
+    return { campaign }
+  }
+  const archived = await getArchivedCampaign(issuerKey, campaignId)
+  return { campaign: archived?.campaign, archived: archived !== undefined }
+}
+
+// Whether the output is still unspent on chain. Undefined if no chain service could tell.
+async function isUnspentOnChain(transaction: Transaction, outputIndex: number): Promise<boolean | undefined> {
+  try {
+    const result = await walletServices.getUtxoStatus(
+      transaction.outputs[outputIndex].lockingScript.toHex(),
+      'script',
+      `${transaction.id('hex')}.${outputIndex}`
+    )
+    return result.status === 'success' ? result.isUtxo : undefined
+  } catch (error) {
+    console.error('UTXO status lookup failed:', error)
+    return undefined
+  }
+}
+
+// Verifies a token output for a third party, given the outpoint ("txid.vout") and
+// BEEF (or AtomicBEEF) containing its transaction
+export async function verifyToken(beef: number[], outpoint: string): Promise<TokenVerification> {
+  const result: TokenVerification = { verified: false, outpoint }
+  const fail = (reason: string): TokenVerification => ({ ...result, reason })
+
+  const [txid, vout] = outpoint.split('.')
+  const outputIndex = Number(vout)
+
+  let transaction: Transaction | undefined
+  try {
+    transaction = Beef.fromBinary(beef).findAtomicTransaction(txid)
+  } catch {
+    return fail('Invalid BEEF')
+  }
+  if (!transaction) {
+    return fail('Transaction not found in BEEF')
+  }
+
+  const output = transaction.outputs[outputIndex]
+  const token = output && decodeToken(output.lockingScript)
+  if (!token) {
+    return fail('Output is not a crowdfunding token')
+  }
+  result.campaignId = token.campaignId
+  result.issuerKey = token.issuerKey
+
+  const { publicKey: currentKey } = await wallet.getPublicKey({ identityKey: true })
+  const issuerKey = token.issuerKey
+  const issuerWallet = issuerKey === currentKey ? wallet : priorIssuerWallets.get(issuerKey)
+
+  const { campaign, archived } = await findIssuedCampaign(token.campaignId, issuerKey, currentKey)
+  if (!campaign) {
+    return fail(issuerKey === currentKey ? 'Unknown campaign' : 'Token was not issued by this campaign backend')
+  }
+  result.campaignTitle = campaign.title
+  if (archived) result.archived = true
+
+  const located = locateOutput(campaign, txid, outputIndex)
+  if (!located) {
+    return fail('Output is not a recorded token of this campaign')
+  }
+  result.investorKey = located.investor.identityKey
+  result.holderKey = located.holderKey
+  result.amount = located.investor.amount
+  result.status = located.transferredBy ? 'transferred' : 'unspent'
+  result.transferredTo = located.transferredBy?.toKey
+  result.transferTxid = located.transferredBy?.txid
+
+  if (token.lockerKey === issuerKey) {
+    // Minted by the issuer, directly to the investor
+    if (located.holderKey !== located.investor.identityKey) {
+      return fail('Issued token is not held by its investor')
+    }
+    // Checking the lock takes the issuer's key. Prior keys are kept in PREVIOUS_PRIVATE_KEYS.
+    if (!issuerWallet) {
+      return fail('Token was issued by a prior backend key that is not configured')
+    }
+    if (!(await verifyTokenLock(issuerWallet, output.lockingScript, located.holderKey))) {
+      return fail('Token is not locked and signed by the issuer')
+    }
+  } else {
+    // Re-locked by a previous holder, which the backend only knows from a recorded transfer
+    const transfer = campaign.transfers?.find(t => t.txid === txid && t.outputIndex === outputIndex)
+    if (!transfer || transfer.fromKey !== token.lockerKey || transfer.toKey !== located.holderKey) {
+      return fail('Token was not locked by a recorded transfer')
+    }
+  }
+
+  try {
+    if (!(await transaction.verify(await walletServices.getChainTracker()))) {
+      return fail('Transaction failed SPV verification')
+    }
+  } catch (error: any) {
+    return fail(`Transaction failed SPV verification: ${error.message}`)
+  }
+
+  if (result.status === 'unspent' && (await isUnspentOnChain(transaction, outputIndex)) === false) {
+    result.status = 'spent'
+  }
+
+  result.verified = true
+  return result
+}
@@ -1,17 +1,32 @@
 import { useEffect, useState } from "react"
-import { WalletClient } from "@bsv/sdk"
+import { WalletClient, WalletInterface } from "@bsv/sdk"
+import { MockWallet, mockWalletKey } from "./mockWallet"
+
+// Set from NETWORK by next.config.js. With NETWORK=mock the page uses an in-memory
+// wallet instead of the browser wallet, with a fixed key per name so the investor
+// keeps their identity across reloads. Switch investors with
+// localStorage.setItem('mockWalletName', '<name>').
+const useMockWallet = process.env.NEXT_PUBLIC_NETWORK === "mock"
+
+// One mock wallet per page load, so its outputs survive navigating between pages
+let mockWallet: MockWallet | null = null
+
+function getMockWallet(): MockWallet {
+  mockWallet ??= new MockWallet(mockWalletKey(localStorage.getItem("mockWalletName") || "investor"))
+  return mockWallet
+}
 
 export const useWallet = () => {
-  const [wallet, setWallet] = useState<WalletClient | null>(null)
+  const [wallet, setWallet] = useState<WalletInterface | null>(null)
   const [identityKey, setIdentityKey] = useState<string | null>(null)
 
   async function initWallet() {
     try {
-      const w = new WalletClient()
+      const w = useMockWallet ? getMockWallet() : new WalletClient()
       const identityKey = await w.getPublicKey({ identityKey: true })
       setWallet(w)
       setIdentityKey(identityKey.publicKey)
-      console.log('Wallet connected')
+      console.log(useMockWallet ? 'Mock wallet connected' : 'Wallet connected')
     } catch (error: any) {
       console.error('Wallet connection error:', error)
     }
@@ -25,4 +40,4 @@ export const useWallet = () => {
     wallet,
     identityKey
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,113 @@
+import { LockingScript, WalletInterface } from '@bsv/sdk'
+import { decodeToken } from './token'
+
+// Labels and tags on the backend wallet's crowdfunding actions, so campaign history
+// can be recovered from the wallet itself. Wallets store labels lowercased.
+const CROWDFUNDING_LABEL = 'crowdfunding'
+const INVESTMENT_LABEL = 'crowdfunding investment'
+const TOKENS_LABEL = 'crowdfunding tokens'
+const REFUND_LABEL = 'crowdfunding refund'
+const CAMPAIGN_PREFIX = 'campaign '
+const INVESTOR_PREFIX = 'investor '
+const HOLDER_PREFIX = 'holder '
+
+// Description the payment middleware gives every payment it internalizes. Payments
+// taken before investments were labelled can only be recognized by it.
+const PAYMENT_DESCRIPTION = 'Payment for request'
+
+const PAGE_SIZE = 1000
+
+export function investmentLabels(campaignId: string, investorKey: string): string[] {
+  return [CROWDFUNDING_LABEL, INVESTMENT_LABEL, CAMPAIGN_PREFIX + campaignId, INVESTOR_PREFIX + investorKey]
+}
+
+export function tokenLabels(campaignId: string): string[] {
+  return [CROWDFUNDING_LABEL, TOKENS_LABEL, CAMPAIGN_PREFIX + campaignId]
+}
+
+export function refundLabels(campaignId: string, investorKey: string): string[] {
+  return [CROWDFUNDING_LABEL, REFUND_LABEL, CAMPAIGN_PREFIX + campaignId, INVESTOR_PREFIX + investorKey]
+}
+
+// Output tag naming the identity a token was minted for
+export function holderTag(identityKey: string): string {
+  return HOLDER_PREFIX + identityKey
+}
+
+// Incoming payment the wallet internalized. Labelled payments name their campaign
+// and investor.
+export interface WalletPaymentRecord {
+  txid: string
+  amount: number
+  campaignId?: string
+  investorKey?: string
+}
+
+// Token output the backend minted. Tagged outputs name their holder.
+export interface WalletTokenRecord {
+  txid: string
+  outputIndex: number
+  campaignId: string
+  lockingScript: LockingScript
+  holderKey?: string
+}
+
+export interface WalletHistory {
+  payments: WalletPaymentRecord[]
+  tokens: WalletTokenRecord[]
+}
+
+function withPrefix(values: string[] | undefined, prefix: string): string | undefined {
+  return values?.find(value => value.startsWith(prefix))?.slice(prefix.length)
+}
+
+// Reads every action of the wallet, oldest first, and picks out investment payments
+// and minted tokens
+export async function readWalletHistory(wallet: WalletInterface): Promise<WalletHistory> {
+  const { publicKey: issuerKey } = await wallet.getPublicKey({ identityKey: true })
+  const history: WalletHistory = { payments: [], tokens: [] }
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { actions, totalActions } = await wallet.listActions({
+      labels: [],
+      includeLabels: true,
+      includeOutputs: true,
+      includeOutputLockingScripts: true,
+      limit: PAGE_SIZE,
+      offset
+    })
+
+    for (const action of actions) {
+      if (action.status === 'failed') continue
+      const labels = action.labels ?? []
+
+      if (!action.isOutgoing && (labels.includes(INVESTMENT_LABEL) || action.description === PAYMENT_DESCRIPTION)) {
+        history.payments.push({
+          txid: action.txid,
+          amount: action.satoshis,
+          campaignId: withPrefix(labels, CAMPAIGN_PREFIX),
+          investorKey: withPrefix(labels, INVESTOR_PREFIX)
+        })
+      }
+
+      for (const output of action.outputs ?? []) {
+        if (!output.lockingScript) continue
+        const lockingScript = LockingScript.fromHex(output.lockingScript)
+        const token = decodeToken(lockingScript)
+        // Transfers are made by holders, so every token locked by the issuer was minted here
+        if (!token || token.issuerKey !== issuerKey || token.lockerKey !== issuerKey) continue
+        history.tokens.push({
+          txid: action.txid,
+          outputIndex: output.outputIndex,
+          campaignId: token.campaignId,
+          lockingScript,
+          holderKey: withPrefix(output.tags, HOLDER_PREFIX)
+        })
+      }
+    }
+
+    if (actions.length === 0 || offset + actions.length >= totalActions) break
+  }
+
+  return history
+}
@@ -0,0 +1,100 @@
+import { KeyDeriver, PrivateKey } from '@bsv/sdk'
+import {
+  Chain,
+  Monitor,
+  Services,
+  Setup,
+  StorageClient,
+  StorageKnex,
+  Wallet,
+  WalletStorageManager,
+  randomBytesHex
+} from '@bsv/wallet-toolbox'
+
+// Backend wallet storage, chosen with WALLET_STORAGE:
+// - 'remote' (default): the wallet lives on the storage server at STORAGE_URL
+// - 'local': the wallet lives in a SQLite database (WALLET_DATABASE). STORAGE_URL is
+//   optional and, when set, the database is backed up to that server.
+export type WalletStorageKind = 'remote' | 'local'
+
+export const DEFAULT_WALLET_DATABASE = 'wallet.sqlite'
+export const DEFAULT_STORAGE_URL = 'https://storage.babbage.systems'
+
+export interface BackendWallet {
+  wallet: Wallet
+  storageManager: WalletStorageManager
+  // Local storage only: the database, and the monitor that broadcasts the wallet's
+  // transactions and collects their merkle proofs (a storage server runs its own)
+  localStorage?: StorageKnex
+  monitor?: Monitor
+}
+
+// Read when called rather than at import, so scripts can load .env first
+export function walletStorageKind(): WalletStorageKind {
+  const kind = process.env.WALLET_STORAGE || 'remote'
+  if (kind !== 'remote' && kind !== 'local') {
+    throw new Error(`Unknown WALLET_STORAGE "${kind}". Use "remote" or "local".`)
+  }
+  return kind
+}
+
+async function openLocalStorage(chain: Chain, databaseFile: string): Promise<StorageKnex> {
+  const storage = new StorageKnex({
+    ...StorageKnex.createStorageBaseOptions(chain),
+    knex: Setup.createSQLiteKnex(databaseFile),
+    commissionSatoshis: 0,
+    commissionPubKeyHex: undefined,
+    feeModel: { model: 'sat/kb', value: 1 }
+  })
+  // The storage name and identity are only recorded when the database is created
+  await storage.migrate('crowdfunding backend wallet', randomBytesHex(33))
+  await storage.makeAvailable()
+  return storage
+}
+
+// Creates the backend wallet on the configured storage. With local storage and a
+// STORAGE_URL, the storage server is added as a backup of the database.
+export async function createBackendWallet(privateKey: PrivateKey, chain: Chain, services: Services): Promise<BackendWallet> {
+  const kind = walletStorageKind()
+  const keyDeriver = new KeyDeriver(privateKey)
+  const storageManager = new WalletStorageManager(keyDeriver.identityKey)
+
+  if (kind === 'remote') {
+    const wallet = new Wallet({ chain, keyDeriver, storage: storageManager, services })
+    const client = new StorageClient(wallet, process.env.STORAGE_URL || DEFAULT_STORAGE_URL)
+    await client.makeAvailable()
+    await storageManager.addWalletStorageProvider(client)
+    return { wallet, storageManager }
+  }
+
+  const databaseFile = process.env.WALLET_DATABASE || DEFAULT_WALLET_DATABASE
+  const localStorage = await openLocalStorage(chain, databaseFile)
+  const monitor = new Monitor(Monitor.createDefaultWalletMonitorOptions(chain, storageManager, services))
+  monitor.addDefaultTasks()
+  const wallet = new Wallet({ chain, keyDeriver, storage: storageManager, services, monitor })
+
+  // The first provider added is the active storage, later ones are backups
+  await storageManager.addWalletStorageProvider(localStorage)
+
+  const backupUrl = process.env.STORAGE_URL
+  if (backupUrl) {
+    const backup = new StorageClient(wallet, backupUrl)
+    await backup.makeAvailable()
+    await storageManager.addWalletStorageProvider(backup)
+
+    // A wallet kept on the storage server until now still has the server selected as its
+    // active storage. Making the database active copies the wallet's outputs and history into it.
+    if (!storageManager.isActiveEnabled) {
+      await storageManager.setActive(localStorage.getSettings().storageIdentityKey)
+      console.log(`✓ Wallet moved from ${backupUrl} to ${databaseFile}`)
+    }
+  }
+
+  return { wallet, storageManager, localStorage, monitor }
+}
+
+// Copies the active storage to every backup. A no-op without backups.
+export async function syncWalletBackups(storageManager: WalletStorageManager): Promise<void> {
+  if (storageManager.getBackupStores().length === 0) return
+  await storageManager.updateBackups()
+}
@@ -0,0 +1,208 @@
+import { Random, Utils, WalletProtocol } from '@bsv/sdk'
+import { wallet } from '../../src/wallet'
+import type { CampaignEvent } from '../events'
+import { JsonWebhookStore, DEFAULT_WEBHOOK_FILE } from './store'
+import { Webhook, WebhookAttempt, WebhookDelivery, WebhookEvent, WebhookEventType, WebhookPayload } from './types'
+
+export type { Webhook, WebhookDelivery, WebhookEvent, WebhookEventType, WebhookPayload } from './types'
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = ['investor', 'funded', 'tokens', 'refund', 'complete']
+
+// Payloads are signed by the backend wallet for 'anyone', so any receiver that knows
+// the backend identity key can verify them
+export const WEBHOOK_SIGNATURE_PROTOCOL: WalletProtocol = [0, 'crowdfunding webhook']
+export const WEBHOOK_SIGNATURE_KEY_ID = '1'
+
+const webhookDataFile = process.env.WEBHOOK_DATA_FILE || DEFAULT_WEBHOOK_FILE
+const maxAttempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5
+
+// Retries wait 2s, 4s, 8s, ... after each failed attempt
+const RETRY_BASE_DELAY_MS = 2_000
+const DELIVERY_TIMEOUT_MS = 10_000
+// Oldest deliveries are dropped from the log beyond this
+const MAX_LOGGED_DELIVERIES = 1_000
+
+const store = new JsonWebhookStore(webhookDataFile)
+
+export function validateWebhook(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Invalid webhook'
+  }
+  let url: URL
+  try {
+    url = new URL(input.url)
+  } catch {
+    return 'Invalid url parameter'
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Webhook url must be http or https'
+  }
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events) || input.events.length === 0) {
+      return 'events must be a non-empty list'
+    }
+    const unknown = input.events.find((event: unknown) => !WEBHOOK_EVENTS.includes(event as WebhookEventType))
+    if (unknown !== undefined) {
+      return `Unknown event "${unknown}". Webhooks can receive: ${WEBHOOK_EVENTS.join(', ')}`
+    }
+  }
+  return null
+}
+
+export function listWebhooks(): Webhook[] {
+  return store.read().webhooks
+}
+
+// Subscribes a URL to the given event types, or to all of them
+export function createWebhook(url: string, events: WebhookEventType[] = WEBHOOK_EVENTS): Webhook {
+  const webhook: Webhook = {
+    id: Utils.toHex(Random(8)),
+    url,
+    events: [...new Set(events)],
+    createdAt: Date.now()
+  }
+  store.update(data => {
+    data.webhooks.push(webhook)
+  })
+  return webhook
+}
+
+// Returns false if there is no such webhook. Its delivery log is kept.
+export function deleteWebhook(id: string): boolean {
+  return store.update(data => {
+    const count = data.webhooks.length
+    data.webhooks = data.webhooks.filter(webhook => webhook.id !== id)
+    return data.webhooks.length < count
+  })
+}
+
+// Newest first
+export function listDeliveries(webhookId?: string): WebhookDelivery[] {
+  return store.read().deliveries
+    .filter(delivery => webhookId === undefined || delivery.webhookId === webhookId)
+    .reverse()
+}
+
+// Queues the event for every webhook subscribed to its type. Delivery runs in the
+// background, so a slow or failing receiver never holds up the request that
+// published the event.
+export function deliverWebhooks(campaignId: string, event: CampaignEvent): void {
+  if (event.type === 'progress') return
+
+  const webhooks = store.read().webhooks.filter(webhook => webhook.events.includes(event.type))
+  for (const webhook of webhooks) {
+    queueDelivery(webhook, campaignId, event).catch(error => {
+      console.error(`Webhook ${webhook.id} delivery error:`, error)
+    })
+  }
+}
+
+async function queueDelivery(webhook: Webhook, campaignId: string, event: WebhookEvent): Promise<void> {
+  const payload: WebhookPayload = {
+    id: Utils.toHex(Random(8)),
+    campaignId,
+    timestamp: Date.now(),
+    event
+  }
+  const body = JSON.stringify(payload)
+
+  const { publicKey: signerKey } = await wallet.getPublicKey({ identityKey: true })
+  const { signature } = await wallet.createSignature({
+    data: Utils.toArray(body, 'utf8'),
+    protocolID: WEBHOOK_SIGNATURE_PROTOCOL,
+    keyID: WEBHOOK_SIGNATURE_KEY_ID,
+    counterparty: 'anyone'
+  })
+
+  store.update(data => {
+    data.deliveries.push({
+      id: payload.id,
+      webhookId: webhook.id,
+      url: webhook.url,
+      type: event.type,
+      campaignId,
+      body,
+      signature: Utils.toHex(signature),
+      signerKey,
+      status: 'pending',
+      attempts: [],
+      createdAt: payload.timestamp
+    })
+    data.deliveries = data.deliveries.slice(-MAX_LOGGED_DELIVERIES)
+  })
+
+  await attemptDelivery(payload.id)
+}
+
+// Sends one attempt and records it, scheduling the next one while attempts remain
+async function attemptDelivery(deliveryId: string): Promise<void> {
+  const delivery = store.read().deliveries.find(d => d.id === deliveryId)
+  if (!delivery || delivery.status !== 'pending') return
+
+  const attempt: WebhookAttempt = { timestamp: Date.now() }
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.type,
+        'X-Webhook-Signature': delivery.signature,
+        'X-Webhook-Identity-Key': delivery.signerKey
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    })
+    attempt.statusCode = response.status
+    if (!response.ok) {
+      attempt.error = `Receiver responded with ${response.status}`
+    }
+  } catch (error: any) {
+    attempt.error = error.message || 'Delivery failed'
+  }
+
+  const updated = store.update(data => {
+    const logged = data.deliveries.find(d => d.id === deliveryId)
+    if (!logged) return undefined
+
+    logged.attempts.push(attempt)
+    logged.nextAttemptAt = undefined
+    if (attempt.error === undefined) {
+      logged.status = 'delivered'
+    } else if (logged.attempts.length >= maxAttempts) {
+      logged.status = 'failed'
+    } else {
+      logged.nextAttemptAt = Date.now() + RETRY_BASE_DELAY_MS * 2 ** (logged.attempts.length - 1)
+    }
+    return logged
+  })
+
+  if (updated?.status === 'failed') {
+    console.error(`Webhook delivery ${deliveryId} to ${delivery.url} failed after ${updated.attempts.length} attempts: ${attempt.error}`)
+  }
+  if (updated?.nextAttemptAt !== undefined) {
+    scheduleAttempt(deliveryId, updated.nextAttemptAt)
+  }
+}
+
+function scheduleAttempt(deliveryId: string, at: number) {
+  setTimeout(() => {
+    attemptDelivery(deliveryId).catch(error => {
+      console.error(`Webhook delivery ${deliveryId} error:`, error)
+    })
+  }, Math.max(0, at - Date.now()))
+}
+
+// Deliveries still pending when the server stopped are picked up again once
+const shared = globalThis as typeof globalThis & {
+  webhookRetriesResumed?: boolean
+}
+
+if (!shared.webhookRetriesResumed) {
+  shared.webhookRetriesResumed = true
+  for (const delivery of store.read().deliveries) {
+    if (delivery.status === 'pending') {
+      scheduleAttempt(delivery.id, delivery.nextAttemptAt ?? Date.now())
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { readFileSync, writeFileSync, existsSync, renameSync } from 'fs'
+import { join } from 'path'
+import { WebhookData } from './types'
+
+export const DEFAULT_WEBHOOK_FILE = join(process.cwd(), 'webhook-data.json')
+
+// Webhook subscriptions and the delivery log in one JSON file, re-read on every
+// call like the overlay store
+export class JsonWebhookStore {
+  constructor(private readonly dataFile = DEFAULT_WEBHOOK_FILE) {}
+
+  read(): WebhookData {
+    if (!existsSync(this.dataFile)) {
+      return { webhooks: [], deliveries: [] }
+    }
+    return JSON.parse(readFileSync(this.dataFile, 'utf-8'))
+  }
+
+  // Read-modify-write. It runs synchronously, so updates never interleave.
+  update<T>(fn: (data: WebhookData) => T): T {
+    const data = this.read()
+    const result = fn(data)
+    const tempFile = `${this.dataFile}.tmp`
+    writeFileSync(tempFile, JSON.stringify(data, null, 2), 'utf-8')
+    renameSync(tempFile, this.dataFile)
+    return result
+  }
+}
@@ -0,0 +1,51 @@
+import type { CampaignEvent } from '../events'
+
+// Every campaign event except progress, which changes too often to deliver
+export type WebhookEvent = Exclude<CampaignEvent, { type: 'progress' }>
+export type WebhookEventType = WebhookEvent['type']
+
+export interface Webhook {
+  id: string
+  url: string
+  // Event types delivered to this webhook
+  events: WebhookEventType[]
+  createdAt: number
+}
+
+// JSON body POSTed to a webhook
+export interface WebhookPayload {
+  id: string
+  campaignId: string
+  timestamp: number
+  event: WebhookEvent
+}
+
+export interface WebhookAttempt {
+  timestamp: number
+  statusCode?: number
+  error?: string
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  webhookId: string
+  url: string
+  type: WebhookEventType
+  campaignId: string
+  // The exact body that was signed, sent as-is on every attempt
+  body: string
+  // Hex DER signature over the body, by signerKey
+  signature: string
+  signerKey: string
+  status: WebhookDeliveryStatus
+  attempts: WebhookAttempt[]
+  nextAttemptAt?: number
+  createdAt: number
+}
+
+export interface WebhookData {
+  webhooks: Webhook[]
+  deliveries: WebhookDelivery[]
+}
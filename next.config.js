@@ -1,11 +1,23 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // Lets the frontend switch to its mock wallet when NETWORK=mock
+  env: {
+    NEXT_PUBLIC_NETWORK: process.env.NETWORK || 'main',
+  },
+  // BRC-103 handshakes are sent to /.well-known/auth on the API origin
+  async rewrites() {
+    return [
+      { source: '/.well-known/auth', destination: '/api/auth' },
+    ];
+  },
   webpack: (config) => {
     config.externals = config.externals || [];
     config.externals.push({
       'utf-8-validate': 'commonjs utf-8-validate',
       'bufferutil': 'commonjs bufferutil',
+      'knex': 'commonjs knex',
+      'sqlite3': 'commonjs sqlite3',
     });
 
     // Configure watch options for development
@@ -0,0 +1,45 @@
+import type { NextApiResponse } from 'next'
+import { EXPORT_FORMATS, ExportFormat, investorCsv, investorExport } from '../../../../../lib/export'
+import { getCampaign } from '../../../../../lib/storage'
+import { PaymentRequest } from '../../../../../lib/middleware'
+import { authenticateOperator } from '../../../../../lib/operators'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// Operator export of a campaign's investors: GET ?format=csv|json (default json)
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const operatorKey = await authenticateOperator(req, res)
+  if (!operatorKey) return
+
+  const format = (req.query.format ?? 'json') as ExportFormat
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` })
+  }
+
+  try {
+    const campaign = await getCampaign(String(req.query.id))
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+
+    console.log(`Campaign ${campaign.id} investors exported as ${format} by ${operatorKey.slice(0, 16)}...`)
+    res.setHeader('Content-Disposition', `attachment; filename="campaign-${campaign.id}-investors.${format}"`)
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+      res.status(200).send(investorCsv(campaign))
+    } else {
+      res.status(200).json(investorExport(campaign))
+    }
+  } catch (error: any) {
+    console.error('Investor export error:', error)
+    res.status(500).json({ error: error.message || 'Failed to export investors' })
+  }
+}
@@ -0,0 +1,70 @@
+import type { NextApiResponse } from 'next'
+import {
+  campaignStatus,
+  parseDeadline,
+  parseTiers,
+  validateCampaignUpdate
+} from '../../../../../lib/crowdfunding'
+import { getCampaign, updateCampaign } from '../../../../../lib/storage'
+import { PaymentRequest } from '../../../../../lib/middleware'
+import { authenticateOperator } from '../../../../../lib/operators'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// Operator edit of a campaign's title, description, goal, deadline, investment limits,
+// hard cap and reward tiers.
+// PATCH with only the fields to change; deadline and limits can be cleared with null.
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const operatorKey = await authenticateOperator(req, res)
+  if (!operatorKey) return
+
+  const campaignId = String(req.query.id)
+
+  if (!(await getCampaign(campaignId))) {
+    return res.status(404).json({ error: 'Campaign not found' })
+  }
+
+  const validationError = validateCampaignUpdate(req.body)
+  if (validationError) {
+    return res.status(400).json({ error: validationError })
+  }
+
+  const { title, description, goal, deadline, minInvestment, maxInvestment, hardCap, tiers } = req.body
+
+  try {
+    const { status, body } = await updateCampaign(campaignId, (campaign, record) => {
+      const error = record({
+        type: 'edited',
+        update: {
+          title,
+          description,
+          goal,
+          deadline: deadline === null ? null : parseDeadline(deadline),
+          minInvestment,
+          maxInvestment,
+          hardCap,
+          tiers: tiers && parseTiers(tiers)
+        }
+      })
+      if (error) {
+        return { status: 400, body: { error } }
+      }
+
+      console.log(`Campaign ${campaign.id} edited by ${operatorKey.slice(0, 16)}...`)
+      return { status: 200, body: campaignStatus(campaign) }
+    })
+
+    res.status(status).json(body)
+  } catch (error: any) {
+    console.error('Edit campaign error:', error)
+    res.status(500).json({ error: error.message || 'Failed to edit campaign' })
+  }
+}
@@ -0,0 +1,52 @@
+import type { NextApiResponse } from 'next'
+import { AdminCampaignStatus, campaignStatus } from '../../../../../lib/crowdfunding'
+import { getCampaign, updateCampaign } from '../../../../../lib/storage'
+import { PaymentRequest } from '../../../../../lib/middleware'
+import { authenticateOperator } from '../../../../../lib/operators'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+const ADMIN_STATUSES: AdminCampaignStatus[] = ['active', 'paused', 'closed']
+
+// Operator pause, resume and close: POST { status: 'paused' | 'active' | 'closed' }
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const operatorKey = await authenticateOperator(req, res)
+  if (!operatorKey) return
+
+  const campaignId = String(req.query.id)
+
+  if (!(await getCampaign(campaignId))) {
+    return res.status(404).json({ error: 'Campaign not found' })
+  }
+
+  const { status: newStatus } = req.body ?? {}
+
+  if (!ADMIN_STATUSES.includes(newStatus)) {
+    return res.status(400).json({ error: `status must be one of ${ADMIN_STATUSES.join(', ')}` })
+  }
+
+  try {
+    const { status, body } = await updateCampaign(campaignId, (campaign, record) => {
+      const error = record({ type: 'status-changed', status: newStatus })
+      if (error) {
+        return { status: 400, body: { error } }
+      }
+
+      console.log(`Campaign ${campaign.id} set to ${campaign.status} by ${operatorKey.slice(0, 16)}...`)
+      return { status: 200, body: campaignStatus(campaign) }
+    })
+
+    res.status(status).json(body)
+  } catch (error: any) {
+    console.error('Campaign status error:', error)
+    res.status(500).json({ error: error.message || 'Failed to change campaign status' })
+  }
+}
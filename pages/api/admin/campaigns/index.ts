@@ -0,0 +1,47 @@
+import type { NextApiResponse } from 'next'
+import { campaignStatus, createCampaign, parseDeadline, parseTiers, validateNewCampaign } from '../../../../lib/crowdfunding'
+import { addCampaign } from '../../../../lib/storage'
+import { PaymentRequest } from '../../../../lib/middleware'
+import { authenticateOperator } from '../../../../lib/operators'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// Campaign creation, restricted to operators
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const operatorKey = await authenticateOperator(req, res)
+  if (!operatorKey) return
+
+  const validationError = validateNewCampaign(req.body)
+  if (validationError) {
+    return res.status(400).json({ error: validationError })
+  }
+
+  try {
+    const campaign = createCampaign({
+      title: req.body.title.trim(),
+      description: req.body.description?.trim() || '',
+      goal: req.body.goal,
+      deadline: parseDeadline(req.body.deadline),
+      minInvestment: req.body.minInvestment,
+      maxInvestment: req.body.maxInvestment,
+      hardCap: req.body.hardCap,
+      tiers: req.body.tiers && parseTiers(req.body.tiers)
+    })
+    await addCampaign(campaign)
+
+    console.log(`Campaign created by ${operatorKey.slice(0, 16)}...: ${campaign.id} (${campaign.title}), goal ${campaign.goal} sats`)
+
+    res.status(201).json(campaignStatus(campaign))
+  } catch (error: any) {
+    console.error('Create campaign error:', error)
+    res.status(500).json({ error: error.message || 'Failed to create campaign' })
+  }
+}
@@ -0,0 +1,27 @@
+import type { NextApiResponse } from 'next'
+import { PaymentRequest } from '../../../../../lib/middleware'
+import { authenticateOperator } from '../../../../../lib/operators'
+import { listDeliveries } from '../../../../../lib/webhooks'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// Delivery log of one webhook, newest first, with every attempt
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const operatorKey = await authenticateOperator(req, res)
+  if (!operatorKey) return
+
+  try {
+    res.status(200).json({ deliveries: listDeliveries(String(req.query.id)) })
+  } catch (error: any) {
+    console.error('Webhook deliveries error:', error)
+    res.status(500).json({ error: error.message || 'Failed to list deliveries' })
+  }
+}
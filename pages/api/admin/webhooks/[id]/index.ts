@@ -0,0 +1,33 @@
+import type { NextApiResponse } from 'next'
+import { PaymentRequest } from '../../../../../lib/middleware'
+import { authenticateOperator } from '../../../../../lib/operators'
+import { deleteWebhook } from '../../../../../lib/webhooks'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// Removes a webhook subscription. Its delivery log is kept.
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const operatorKey = await authenticateOperator(req, res)
+  if (!operatorKey) return
+
+  try {
+    const webhookId = String(req.query.id)
+    if (!deleteWebhook(webhookId)) {
+      return res.status(404).json({ error: 'Webhook not found' })
+    }
+
+    console.log(`Webhook ${webhookId} deleted by ${operatorKey.slice(0, 16)}...`)
+    res.status(200).json({ success: true })
+  } catch (error: any) {
+    console.error('Delete webhook error:', error)
+    res.status(500).json({ error: error.message || 'Failed to delete webhook' })
+  }
+}
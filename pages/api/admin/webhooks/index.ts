@@ -0,0 +1,39 @@
+import type { NextApiResponse } from 'next'
+import { PaymentRequest } from '../../../../lib/middleware'
+import { authenticateOperator } from '../../../../lib/operators'
+import { createWebhook, listWebhooks, validateWebhook } from '../../../../lib/webhooks'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// Lists webhook subscriptions (GET) or subscribes a URL to campaign events (POST)
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const operatorKey = await authenticateOperator(req, res)
+  if (!operatorKey) return
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ webhooks: listWebhooks() })
+    }
+
+    const validationError = validateWebhook(req.body)
+    if (validationError) {
+      return res.status(400).json({ error: validationError })
+    }
+
+    const webhook = createWebhook(req.body.url, req.body.events)
+    console.log(`Webhook ${webhook.id} created by ${operatorKey.slice(0, 16)}...: ${webhook.url} (${webhook.events.join(', ')})`)
+
+    res.status(201).json(webhook)
+  } catch (error: any) {
+    console.error('Webhooks error:', error)
+    res.status(500).json({ error: error.message || 'Failed to manage webhooks' })
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getAuthMiddleware, runMiddleware } from '../../lib/middleware'
+
+// BRC-103 handshake endpoint. AuthFetch clients POST to /.well-known/auth,
+// which next.config.js rewrites here.
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // The auth middleware recognises handshakes by their public path
+  ;(req as any).path = '/.well-known/auth'
+
+  try {
+    const authMiddleware = await getAuthMiddleware()
+    await runMiddleware(req, res, authMiddleware)
+  } catch (error: any) {
+    console.error('Auth handshake error:', error)
+    if (!res.headersSent) {
+      res.status(500).json({ error: error.message || 'Authentication failed' })
+    }
+  }
+}
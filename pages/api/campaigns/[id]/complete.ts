@@ -0,0 +1,166 @@
+import type { NextApiResponse } from 'next'
+import { wallet } from '../../../../src/wallet'
+import { getCampaign, updateCampaign } from '../../../../lib/storage'
+import { PaymentRequest, authenticate } from '../../../../lib/middleware'
+import { createTokenLockingScript } from '../../../../lib/token'
+import { Utils } from '@bsv/sdk'
+import { isRaising, tokenPayload } from '../../../../lib/crowdfunding'
+import { submitTokenTransaction } from '../../../../lib/overlay'
+import { holderTag, tokenLabels } from '../../../../lib/walletHistory'
+import { CampaignEvent, publishCampaignEvent } from '../../../../lib/events'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Tokens are only issued to the mutually authenticated investor
+  const identityKey = await authenticate(req, res)
+  if (!identityKey) return
+
+  const campaignId = String(req.query.id)
+  const campaign = await getCampaign(campaignId)
+
+  if (!campaign) {
+    return res.status(404).json({ error: 'Campaign not found' })
+  }
+
+  const { identityKey: claimedIdentityKey, paymentKey } = req.body ?? {}
+
+  // identityKey in the body is optional, but must name the authenticated peer if given
+  if (claimedIdentityKey !== undefined && claimedIdentityKey !== identityKey) {
+    return res.status(403).json({ error: 'identityKey does not match the authenticated identity' })
+  }
+
+  if (!paymentKey || typeof paymentKey !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid paymentKey parameter' })
+  }
+
+  try {
+    // Checks and token issuance run under the campaign lock, so two claims
+    // for the same investor can't both mint a token. Events are published once
+    // the claim has been saved.
+    const events: CampaignEvent[] = []
+    const { status, body } = await updateCampaign(campaignId, async (campaign, record) => {
+      const investor = campaign.investors.find(
+        (inv) => inv.identityKey === identityKey
+      )
+
+      if (!investor) {
+        return { status: 400, body: { error: 'Investor not found' } }
+      }
+
+      // After a batch distribution, the investor's token is already minted in the
+      // shared transaction, so hand out that output instead of minting another
+      const { distribution } = campaign
+      if (distribution && investor.token?.txid === distribution.txid) {
+        return {
+          status: 200,
+          body: {
+            success: true,
+            message: 'Token distributed to investor!',
+            txid: distribution.txid,
+            tx: Utils.toArray(distribution.tx, 'base64'),
+            outputIndex: investor.token.outputIndex,
+            investorCount: campaign.investors.length,
+            allRedeemed: true
+          }
+        }
+      }
+
+      if (investor.amount === 0) {
+        return { status: 400, body: { error: 'Nothing to claim - your payment was refunded' } }
+      }
+
+      if (investor.redeemed === true) {
+        return { status: 400, body: { error: 'Investor already redeemed' } }
+      }
+
+      if (campaign.status === 'failed') {
+        return { status: 400, body: { error: 'Campaign failed - investors are being refunded' } }
+      }
+
+      if (campaign.raised < campaign.goal) {
+        return {
+          status: 400,
+          body: {
+            error: 'Goal not reached',
+            raised: campaign.raised,
+            goal: campaign.goal
+          }
+        }
+      }
+
+      // Shares are taken from the final raise, and later investments would go untokenized
+      if (isRaising(campaign)) {
+        return { status: 400, body: { error: 'Campaign is still raising - tokens are issued once it closes or reaches its hard cap' } }
+      }
+
+      const { publicKey: issuerKey } = await wallet.getPublicKey({ identityKey: true })
+      const tokenDescription = `${campaign.title} token for ${investor.amount} sats`
+
+      const lockingScript = await createTokenLockingScript(
+        wallet,
+        identityKey,
+        tokenPayload(campaign, investor, issuerKey)
+      )
+
+      const result = await wallet.createAction({
+        description: `Create token: ${tokenDescription}`,
+        labels: tokenLabels(campaign.id),
+        outputs: [
+          {
+            lockingScript: lockingScript.toHex(),
+            satoshis: 1,
+            basket: 'crowdfunding',
+            outputDescription: 'Crowdfunding token',
+            tags: [holderTag(identityKey)]
+          }
+        ],
+        options: {
+          randomizeOutputs: false
+        }
+      })
+
+      record({ type: 'claimed', identityKey, txid: result.txid!, outputIndex: 0 })
+
+      if (result.tx) {
+        await submitTokenTransaction(result.tx, { 0: identityKey })
+      }
+
+      events.push({ type: 'tokens', txid: result.txid!, holders: [identityKey] })
+
+      const allRedeemed = campaign.investors.every(inv => inv.redeemed || inv.amount === 0)
+      if (allRedeemed) {
+        record({ type: 'completed', completionTxid: result.txid! })
+        events.push({ type: 'complete', completionTxid: campaign.completionTxid })
+      }
+
+      return {
+        status: 200,
+        body: {
+          success: true,
+          message: 'Token distributed to investor!',
+          txid: result?.txid || 'unknown',
+          tx: result.tx,
+          outputIndex: 0,
+          investorCount: campaign.investors.length,
+          allRedeemed
+        }
+      }
+    })
+
+    events.forEach(event => publishCampaignEvent(campaignId, event))
+
+    res.status(status).json(body)
+  } catch (error: any) {
+    console.error('Complete error:', error)
+    res.status(500).json({ error: error.message || 'Failed to complete' })
+  }
+}
@@ -0,0 +1,149 @@
+import type { NextApiResponse } from 'next'
+import { wallet } from '../../../../src/wallet'
+import { getCampaign, updateCampaign } from '../../../../lib/storage'
+import { PaymentRequest, authenticate } from '../../../../lib/middleware'
+import { isOperator } from '../../../../lib/operators'
+import { isRaising, tokenPayload } from '../../../../lib/crowdfunding'
+import { createTokenLockingScript } from '../../../../lib/token'
+import { submitTokenTransaction } from '../../../../lib/overlay'
+import { holderTag, tokenLabels } from '../../../../lib/walletHistory'
+import { CampaignEvent, publishCampaignEvent } from '../../../../lib/events'
+import { Utils } from '@bsv/sdk'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// Operator-triggered distribution: mints every outstanding investor's token in one
+// transaction. Investors then fetch their output from it through /complete.
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const identityKey = await authenticate(req, res)
+  if (!identityKey) return
+
+  if (!isOperator(identityKey)) {
+    return res.status(403).json({ error: 'Only operators can distribute tokens' })
+  }
+
+  const campaignId = String(req.query.id)
+  const campaign = await getCampaign(campaignId)
+
+  if (!campaign) {
+    return res.status(404).json({ error: 'Campaign not found' })
+  }
+
+  try {
+    // Events are published once the distribution has been saved
+    const events: CampaignEvent[] = []
+    const { status, body } = await updateCampaign(campaignId, async (campaign, record) => {
+      if (campaign.status === 'failed') {
+        return { status: 400, body: { error: 'Campaign failed - investors are being refunded' } }
+      }
+
+      if (campaign.isComplete) {
+        return { status: 400, body: { error: 'Tokens already distributed' } }
+      }
+
+      if (campaign.raised < campaign.goal) {
+        return {
+          status: 400,
+          body: {
+            error: 'Goal not reached',
+            raised: campaign.raised,
+            goal: campaign.goal
+          }
+        }
+      }
+
+      // Shares are taken from the final raise, and later investments would go untokenized
+      if (isRaising(campaign)) {
+        return { status: 400, body: { error: 'Campaign is still raising - tokens are issued once it closes or reaches its hard cap' } }
+      }
+
+      // Investors who already claimed their own token keep it, and investors whose
+      // whole payment was refunded as excess get none
+      const recipients = campaign.investors.filter(inv => !inv.redeemed && inv.amount > 0)
+
+      if (recipients.length === 0) {
+        return { status: 400, body: { error: 'No investors awaiting tokens' } }
+      }
+
+      const { publicKey: issuerKey } = await wallet.getPublicKey({ identityKey: true })
+      const issuedAt = Date.now()
+
+      const outputs = await Promise.all(recipients.map(async investor => {
+        const lockingScript = await createTokenLockingScript(
+          wallet,
+          investor.identityKey,
+          tokenPayload(campaign, investor, issuerKey, issuedAt)
+        )
+        return {
+          lockingScript: lockingScript.toHex(),
+          satoshis: 1,
+          basket: 'crowdfunding',
+          outputDescription: 'Crowdfunding token',
+          tags: [holderTag(investor.identityKey)]
+        }
+      }))
+
+      // Outputs keep the order of recipients, so output i belongs to recipients[i]
+      const result = await wallet.createAction({
+        description: `Distribute ${campaign.title} tokens to ${recipients.length} investors`,
+        labels: tokenLabels(campaign.id),
+        outputs,
+        options: {
+          randomizeOutputs: false
+        }
+      })
+
+      if (!result.txid || !result.tx) {
+        throw new Error('Distribution transaction was not created')
+      }
+
+      record({
+        type: 'distributed',
+        distribution: {
+          txid: result.txid,
+          tx: Utils.toBase64(result.tx),
+          timestamp: issuedAt
+        },
+        holders: recipients.map(investor => investor.identityKey)
+      })
+      record({ type: 'completed', completionTxid: result.txid })
+
+      await submitTokenTransaction(
+        result.tx,
+        Object.fromEntries(recipients.map((investor, outputIndex) => [outputIndex, investor.identityKey]))
+      )
+
+      console.log(`Distributed ${recipients.length} tokens for campaign ${campaign.id}. TXID: ${result.txid}`)
+      events.push(
+        { type: 'tokens', txid: result.txid, holders: recipients.map(investor => investor.identityKey) },
+        { type: 'complete', completionTxid: result.txid }
+      )
+
+      return {
+        status: 200,
+        body: {
+          success: true,
+          message: 'Tokens distributed to all investors!',
+          txid: result.txid,
+          recipientCount: recipients.length,
+          investorCount: campaign.investors.length
+        }
+      }
+    })
+
+    events.forEach(event => publishCampaignEvent(campaignId, event))
+
+    res.status(status).json(body)
+  } catch (error: any) {
+    console.error('Distribution error:', error)
+    res.status(500).json({ error: error.message || 'Failed to distribute tokens' })
+  }
+}
@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { campaignStatus } from '../../../../lib/crowdfunding'
+import { CampaignEvent, campaignEventView, subscribeToCampaign } from '../../../../lib/events'
+import { getCampaign } from '../../../../lib/storage'
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_INTERVAL_MS = 25_000
+
+// The stream stays open until the client disconnects
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// The stream is public, so identity keys in events are truncated
+function writeEvent(res: NextApiResponse, event: CampaignEvent) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(campaignEventView(event))}\n\n`)
+}
+
+// Server-Sent Events stream of one campaign: its current status as a first
+// progress event, then every change as it happens
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const campaignId = String(req.query.id)
+
+  let campaign
+  try {
+    campaign = await getCampaign(campaignId)
+  } catch (error: any) {
+    console.error('Events error:', error)
+    return res.status(500).json({ error: error.message || 'Failed to get status' })
+  }
+
+  if (!campaign) {
+    return res.status(404).json({ error: 'Campaign not found' })
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Compressed responses are buffered, which would hold events back
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no'
+  })
+
+  const unsubscribe = subscribeToCampaign(campaignId, event => writeEvent(res, event))
+  writeEvent(res, { type: 'progress', campaign: campaignStatus(campaign) })
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+    res.end()
+  })
+}
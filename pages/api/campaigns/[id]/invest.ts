@@ -0,0 +1,251 @@
+import type { NextApiResponse } from 'next'
+import {
+  PaymentRequest,
+  runMiddleware,
+  authenticate,
+  getPaymentMiddleware,
+  investmentAmount,
+  parsePaymentHeader,
+  paymentAmount,
+  paymentTxid
+} from '../../../../lib/middleware'
+import {
+  findContribution,
+  investmentLimitError,
+  investmentRange,
+  investmentRoom,
+  isExpired
+} from '../../../../lib/crowdfunding'
+import { getCampaign, listCampaigns, updateCampaign } from '../../../../lib/storage'
+import { sendRefund } from '../../../../lib/refunds'
+import { investmentLabels, refundLabels } from '../../../../lib/walletHistory'
+import { CampaignEvent, publishCampaignEvent } from '../../../../lib/events'
+import { wallet } from '../../../../src/wallet'
+import { Campaign, Contribution, Refund } from '../../../../src/types'
+
+// Response for a recorded contribution. A sent excess refund comes with what the
+// investor needs to internalize it.
+function investmentResult(contribution: Contribution, totalRaised: number, backendIdentityKey: string) {
+  const refund = contribution.excessRefund
+  return {
+    success: true,
+    amount: contribution.amount,
+    txid: contribution.txid,
+    totalRaised,
+    message: 'Investment received! Tokens will be distributed when goal is reached.',
+    refund: refund && {
+      status: refund.status,
+      amount: refund.amount,
+      txid: refund.txid,
+      tx: refund.tx,
+      derivationPrefix: refund.derivationPrefix,
+      derivationSuffix: refund.derivationSuffix,
+      senderIdentityKey: backendIdentityKey,
+      error: refund.error
+    }
+  }
+}
+
+// Pay back the part of a payment the campaign could not take
+async function refundExcess(campaign: Campaign, investorKey: string, amount: number): Promise<Refund> {
+  try {
+    const refund = await sendRefund(
+      investorKey,
+      amount,
+      `Refund of excess investment: ${campaign.title}`,
+      refundLabels(campaign.id, investorKey)
+    )
+    console.log(`Refunded ${amount} excess sats to ${investorKey.slice(0, 16)}... TXID: ${refund.txid}`)
+    return refund
+  } catch (error: any) {
+    console.error('Excess refund error:', error)
+    return {
+      status: 'failed',
+      amount,
+      error: error.message || 'Refund failed',
+      timestamp: Date.now()
+    }
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // Mutual authentication establishes who is investing; every response below is signed
+  const investorKey = await authenticate(req, res)
+  if (!investorKey) return
+
+  const campaign = await getCampaign(String(req.query.id))
+
+  if (!campaign) {
+    return res.status(404).json({ error: 'Campaign not found' })
+  }
+
+  if (campaign.status === 'failed') {
+    return res.status(400).json({ error: 'Campaign failed to reach its goal before the deadline' })
+  }
+
+  if (campaign.status === 'paused') {
+    return res.status(400).json({ error: 'Campaign is paused' })
+  }
+
+  if (campaign.status === 'closed') {
+    return res.status(400).json({ error: 'Campaign is closed' })
+  }
+
+  if (isExpired(campaign)) {
+    return res.status(400).json({ error: 'Campaign deadline has passed' })
+  }
+
+  if (campaign.isComplete) {
+    return res.status(400).json({ error: 'Crowdfunding already complete' })
+  }
+
+  const amount = investmentAmount(req)
+
+  if (amount === undefined) {
+    return res.status(400).json({ error: 'Invalid investment amount' })
+  }
+
+  const limitError = investmentLimitError(campaign, investorKey, amount)
+  if (limitError) {
+    return res.status(400).json({ error: limitError })
+  }
+
+  // Sent with the 402 challenge so the client knows what it may invest. The client
+  // verifies every x-bsv-* response header, so they go through res.set, which the auth
+  // middleware overrides to sign them; res.setHeader would leave them unsigned.
+  const range = investmentRange(campaign, investorKey)
+  const signedRes = res as NextApiResponse & { set(field: Record<string, string>): void }
+  signedRes.set({
+    'x-bsv-investment-minimum': String(range.min),
+    'x-bsv-investment-maximum': String(range.max)
+  })
+
+  const { publicKey: backendIdentityKey } = await wallet.getPublicKey({ identityKey: true })
+
+  const paymentData = parsePaymentHeader(req)
+
+  // The payment is credited to the authenticated peer, never to a key named in the request
+  if (paymentData?.senderIdentityKey && paymentData.senderIdentityKey !== investorKey) {
+    return res.status(403).json({ error: 'Payment sender does not match the authenticated identity' })
+  }
+
+  try {
+    if (paymentData) {
+      // A payment that was already recorded is answered with its original result
+      // instead of being internalized and counted again
+      const txid = paymentTxid(paymentData)
+      for (const recordedIn of await listCampaigns()) {
+        const recorded = findContribution(recordedIn, txid)
+        if (!recorded) continue
+        if (recordedIn.id !== campaign.id) {
+          return res.status(409).json({ error: 'Payment already recorded for another campaign' })
+        }
+        if (recorded.investor.identityKey !== investorKey) {
+          return res.status(409).json({ error: 'Payment already recorded for another investor' })
+        }
+        console.log(`Replayed payment ${txid} - returning recorded contribution`)
+        return res.status(200).json(investmentResult(recorded.contribution, recordedIn.raised, backendIdentityKey))
+      }
+    }
+
+    // Run payment middleware to handle the BSV payment. The payment is labelled in the
+    // backend wallet with the campaign and investor.
+    const paymentMiddleware = await getPaymentMiddleware(investmentLabels(campaign.id, investorKey))
+    if (!(await runMiddleware(req, res, paymentMiddleware))) return
+
+    // At this point req.payment is populated by the middleware
+    if (!req.payment?.accepted) {
+      return res.status(400).json({ error: 'Payment not accepted' })
+    }
+
+    if (!paymentData) {
+      return res.status(400).json({ error: 'Missing payment' })
+    }
+
+    // Credit what the transaction pays, which may differ from the price the client was asked
+    const actualAmount = await paymentAmount(paymentData, investorKey)
+    if (actualAmount < amount) {
+      return res.status(400).json({ error: `Payment of ${actualAmount} sats is less than the ${amount} sats requested` })
+    }
+
+    const contribution: Contribution = {
+      amount: actualAmount,
+      timestamp: Date.now(),
+      txid: paymentTxid(paymentData),
+      derivationPrefix: paymentData.derivationPrefix,
+      derivationSuffix: paymentData.derivationSuffix
+    }
+
+    console.log('Investment received via payment middleware:', {
+      campaignId: campaign.id,
+      investorKey: investorKey.slice(0, 16) + '...',
+      ...contribution
+    })
+
+    // Record the contribution against freshly loaded state, so concurrent
+    // investments and status reads can't drop or double-count it. Events are
+    // published once it has been saved.
+    const events: CampaignEvent[] = []
+    const result = await updateCampaign(campaign.id, async (current, record) => {
+      // A concurrent submission of the same payment may have been recorded meanwhile
+      const recorded = findContribution(current, contribution.txid!)
+      if (recorded) {
+        return investmentResult(recorded.contribution, current.raised, backendIdentityKey)
+      }
+
+      // Since the checks above, concurrent investments may have filled the campaign, or
+      // it may have stopped taking investments. Whatever no longer fits under the cap or
+      // the investor's maximum, or all of it once the campaign stopped, is paid back.
+      const excess = contribution.amount - Math.min(contribution.amount, investmentRoom(current, investorKey))
+      if (excess > 0) {
+        contribution.amount -= excess
+        contribution.excessRefund = await refundExcess(current, investorKey, excess)
+        if (contribution.excessRefund.status === 'sent') {
+          events.push({
+            type: 'refund',
+            identityKey: investorKey,
+            amount: excess,
+            txid: contribution.excessRefund.txid!,
+            reason: 'excess'
+          })
+        }
+      }
+
+      const wasFunded = current.raised >= current.goal
+      record({ type: 'invested', identityKey: investorKey, contribution })
+      const investor = current.investors.find(inv => inv.identityKey === investorKey)!
+      console.log(`Investor ${investorKey.slice(0, 16)}... Total: ${investor.amount} sats`)
+      console.log(`Total investors: ${current.investors.length}, Total raised: ${current.raised} sats`)
+
+      events.push({
+        type: 'investor',
+        identityKey: investorKey,
+        amount: contribution.amount,
+        totalAmount: investor.amount,
+        isNew: investor.contributions.length === 1,
+        timestamp: contribution.timestamp
+      })
+      if (!wasFunded && current.raised >= current.goal) {
+        events.push({ type: 'funded', raised: current.raised, goal: current.goal })
+      }
+
+      return investmentResult(contribution, current.raised, backendIdentityKey)
+    })
+    events.forEach(event => publishCampaignEvent(campaign.id, event))
+
+    res.status(200).json(result)
+  } catch (error: any) {
+    console.error('Investment error:', error)
+    res.status(400).json({ error: error.message || 'Payment failed' })
+  }
+}
@@ -0,0 +1,49 @@
+import type { NextApiResponse } from 'next'
+import { investorView } from '../../../../../lib/crowdfunding'
+import { getCampaign } from '../../../../../lib/storage'
+import { PaymentRequest, authenticate } from '../../../../../lib/middleware'
+import { isOperator } from '../../../../../lib/operators'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// One investor's full record, with their payments' derivation data. Only the investor
+// themself and operators may read it.
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const callerKey = await authenticate(req, res)
+  if (!callerKey) return
+
+  const identityKey = String(req.query.identityKey)
+  if (callerKey !== identityKey && !isOperator(callerKey)) {
+    return res.status(403).json({ error: 'Only the investor or an operator can read this record' })
+  }
+
+  try {
+    const campaign = await getCampaign(String(req.query.id))
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+
+    const investor = campaign.investors.find(inv => inv.identityKey === identityKey)
+
+    if (!investor) {
+      return res.status(404).json({ error: 'Investor not found' })
+    }
+
+    res.status(200).json({
+      campaignId: campaign.id,
+      ...investorView(investor)
+    })
+  } catch (error: any) {
+    console.error('Investor error:', error)
+    res.status(500).json({ error: error.message || 'Failed to get investor' })
+  }
+}
@@ -0,0 +1,121 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { wallet } from '../../../../src/wallet'
+import { getCampaign, updateCampaign } from '../../../../lib/storage'
+import { sendRefund } from '../../../../lib/refunds'
+import { refundLabels } from '../../../../lib/walletHistory'
+import { CampaignEvent, publishCampaignEvent } from '../../../../lib/events'
+import { Investor, Refund } from '../../../../src/types'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const walletIdentity = await wallet.getPublicKey({ identityKey: true })
+  const campaignId = String(req.query.id)
+  const campaign = await getCampaign(campaignId)
+
+  if (!campaign) {
+    return res.status(404).json({ error: 'Campaign not found' })
+  }
+
+  if (campaign.status !== 'failed') {
+    return res.status(400).json({ error: 'Refunds are only available for failed campaigns' })
+  }
+
+  // Refund a single investor when identityKey is given, otherwise every investor still owed
+  const { identityKey } = req.body ?? {}
+
+  if (identityKey !== undefined && typeof identityKey !== 'string') {
+    return res.status(400).json({ error: 'Invalid identityKey parameter' })
+  }
+
+  try {
+    // Refunds are sent under the campaign lock so an investor is never paid twice.
+    // Events are published once the refunds have been saved.
+    const events: CampaignEvent[] = []
+    const { status, body } = await updateCampaign(campaignId, async (campaign, record) => {
+      let targets: Investor[] = campaign.investors
+
+      if (identityKey !== undefined) {
+        const investor = campaign.investors.find(inv => inv.identityKey === identityKey)
+        if (!investor) {
+          return { status: 400, body: { error: 'Investor not found' } }
+        }
+        if (investor.amount === 0) {
+          return { status: 400, body: { error: 'Nothing to refund - your payment was already returned' } }
+        }
+        targets = [investor]
+      }
+
+      for (const investor of targets) {
+        // Investors whose whole payment was refunded as excess are owed nothing
+        if (investor.refund?.status === 'sent' || investor.amount === 0) continue
+
+        let refund: Refund
+        try {
+          refund = await sendRefund(
+            investor.identityKey,
+            investor.amount,
+            `Refund from failed campaign: ${campaign.title}`,
+            refundLabels(campaign.id, investor.identityKey)
+          )
+          console.log(`Refunded ${investor.amount} sats to ${investor.identityKey.slice(0, 16)}... TXID: ${refund.txid}`)
+          events.push({
+            type: 'refund',
+            identityKey: investor.identityKey,
+            amount: investor.amount,
+            txid: refund.txid!,
+            reason: 'failed'
+          })
+        } catch (error: any) {
+          console.error('Refund error:', error)
+          refund = {
+            status: 'failed',
+            amount: investor.amount,
+            error: error.message || 'Refund failed',
+            timestamp: Date.now()
+          }
+        }
+        record({ type: 'refunded', identityKey: investor.identityKey, refund })
+      }
+
+      if (identityKey !== undefined) {
+        const refund = targets[0].refund!
+        if (refund.status !== 'sent') {
+          return { status: 500, body: { error: refund.error || 'Refund failed' } }
+        }
+        return {
+          status: 200,
+          body: {
+            success: true,
+            message: 'Refund sent to investor',
+            txid: refund.txid,
+            tx: refund.tx,
+            amount: refund.amount,
+            derivationPrefix: refund.derivationPrefix,
+            derivationSuffix: refund.derivationSuffix,
+            senderIdentityKey: walletIdentity.publicKey
+          }
+        }
+      }
+
+      return {
+        status: 200,
+        body: {
+          success: true,
+          refunded: campaign.investors.filter(inv => inv.refund?.status === 'sent').length,
+          failed: campaign.investors.filter(inv => inv.refund?.status === 'failed').length,
+          investorCount: campaign.investors.length
+        }
+      }
+    })
+
+    events.forEach(event => publishCampaignEvent(campaignId, event))
+
+    res.status(status).json(body)
+  } catch (error: any) {
+    console.error('Refund error:', error)
+    res.status(500).json({ error: error.message || 'Failed to refund' })
+  }
+}
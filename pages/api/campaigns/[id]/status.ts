@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { wallet } from '../../../../src/wallet'
+import { campaignStatus } from '../../../../lib/crowdfunding'
+import { getArchivedCampaign, getCampaign } from '../../../../lib/storage'
+
+// Campaign status, with the backend identity that issues its tokens. Campaigns archived
+// by a key rotation are read with ?issuerKey=<the prior key that ran them>.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { publicKey: currentKey } = await wallet.getPublicKey({ identityKey: true })
+    const issuerKey = req.query.issuerKey === undefined ? currentKey : String(req.query.issuerKey)
+
+    const campaign = issuerKey === currentKey
+      ? await getCampaign(String(req.query.id))
+      : (await getArchivedCampaign(issuerKey, String(req.query.id)))?.campaign
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+
+    res.status(200).json({
+      ...campaignStatus(campaign),
+      issuerKey,
+      archived: issuerKey !== currentKey
+    })
+  } catch (error: any) {
+    console.error('Status error:', error)
+    res.status(500).json({ error: error.message || 'Failed to get status' })
+  }
+}
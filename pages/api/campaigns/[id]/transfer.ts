@@ -0,0 +1,151 @@
+import type { NextApiResponse } from 'next'
+import { PublicKey, Transaction, Utils } from '@bsv/sdk'
+import { getCampaign, updateCampaign } from '../../../../lib/storage'
+import { PaymentRequest, authenticate } from '../../../../lib/middleware'
+import { findTokenHolding, holderOf } from '../../../../lib/crowdfunding'
+import { decodeToken, linkedLockVerifier, verifyTokenLock } from '../../../../lib/token'
+import { submitTokenTransaction } from '../../../../lib/overlay'
+import { wallet, walletServices } from '../../../../src/wallet'
+import { TokenTransfer } from '../../../../src/types'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+function isPublicKey(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    PublicKey.fromString(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Records a token transfer made by the current holder and relays it to the recipient.
+// The holder's wallet has already signed and broadcast the transaction spending the
+// token and re-locking it to the recipient; the backend updates the cap table and
+// keeps the transaction in the recipient's inbox until they acknowledge it.
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const senderKey = await authenticate(req, res)
+  if (!senderKey) return
+
+  const campaignId = String(req.query.id)
+  const campaign = await getCampaign(campaignId)
+
+  if (!campaign) {
+    return res.status(404).json({ error: 'Campaign not found' })
+  }
+
+  const { tx, outputIndex = 0, recipientKey, outpoint, linkage } = req.body ?? {}
+
+  if (!isPublicKey(recipientKey)) {
+    return res.status(400).json({ error: 'Missing or invalid recipientKey parameter' })
+  }
+
+  if (recipientKey === senderKey) {
+    return res.status(400).json({ error: 'Cannot transfer a token to yourself' })
+  }
+
+  if (typeof outpoint !== 'string' || !/^[0-9a-f]{64}\.\d+$/.test(outpoint)) {
+    return res.status(400).json({ error: 'Missing or invalid outpoint parameter' })
+  }
+
+  if (typeof tx !== 'string' || !Number.isInteger(outputIndex)) {
+    return res.status(400).json({ error: 'Missing or invalid transaction' })
+  }
+
+  if (typeof linkage !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid linkage parameter' })
+  }
+
+  const [spentTxid, spentIndex] = outpoint.split('.')
+  let transaction: Transaction
+  try {
+    transaction = Transaction.fromAtomicBEEF(Utils.toArray(tx, 'base64'))
+  } catch {
+    return res.status(400).json({ error: 'Invalid transaction' })
+  }
+
+  const spendsToken = transaction.inputs.some(input =>
+    (input.sourceTXID ?? input.sourceTransaction?.id('hex')) === spentTxid &&
+    input.sourceOutputIndex === Number(spentIndex)
+  )
+  if (!spendsToken) {
+    return res.status(400).json({ error: 'Transaction does not spend the given token' })
+  }
+
+  const output = transaction.outputs[outputIndex]
+  const token = output && decodeToken(output.lockingScript)
+  if (!token || token.campaignId !== campaign.id || token.lockerKey !== senderKey) {
+    return res.status(400).json({ error: 'Output is not a token for this campaign locked by the sender' })
+  }
+
+  // The sender revealed the key linkage with the recipient to the backend, which is what
+  // it takes to check that the output is locked to the recipient and signed by the sender
+  try {
+    const lockVerifier = await linkedLockVerifier(wallet, senderKey, Utils.toArray(linkage, 'base64'))
+    if (!(await verifyTokenLock(lockVerifier, output.lockingScript, recipientKey))) {
+      return res.status(400).json({ error: 'Output is not locked to the recipient' })
+    }
+  } catch (error: any) {
+    return res.status(400).json({ error: `Output is not locked to the recipient: ${error.message}` })
+  }
+
+  try {
+    if (!(await transaction.verify(await walletServices.getChainTracker()))) {
+      return res.status(400).json({ error: 'Transaction failed SPV verification' })
+    }
+  } catch (error: any) {
+    return res.status(400).json({ error: `Transaction failed SPV verification: ${error.message}` })
+  }
+
+  const txid = transaction.id('hex')
+
+  try {
+    const { status, body } = await updateCampaign(campaignId, async (campaign, record) => {
+      // The same transfer submitted twice is only recorded once
+      const recorded = campaign.transfers?.find(transfer => transfer.txid === txid)
+      if (recorded) {
+        return { status: 200, body: { success: true, txid, outputIndex: recorded.outputIndex } }
+      }
+
+      const investor = findTokenHolding(campaign, spentTxid, Number(spentIndex))
+      if (!investor) {
+        return { status: 404, body: { error: 'Token not found in this campaign' } }
+      }
+
+      if (holderOf(investor) !== senderKey) {
+        return { status: 403, body: { error: 'Token is not held by the authenticated identity' } }
+      }
+
+      const transfer: TokenTransfer = {
+        investorKey: investor.identityKey,
+        fromKey: senderKey,
+        toKey: recipientKey,
+        spentOutpoint: outpoint,
+        txid,
+        outputIndex,
+        tx,
+        timestamp: Date.now()
+      }
+      record({ type: 'transferred', transfer })
+      await submitTokenTransaction(Utils.toArray(tx, 'base64'), { [outputIndex]: recipientKey })
+
+      console.log(`Token of ${investor.identityKey.slice(0, 16)}... transferred from ${senderKey.slice(0, 16)}... to ${recipientKey.slice(0, 16)}... TXID: ${txid}`)
+
+      return { status: 200, body: { success: true, txid, outputIndex } }
+    })
+
+    res.status(status).json(body)
+  } catch (error: any) {
+    console.error('Transfer error:', error)
+    res.status(500).json({ error: error.message || 'Failed to record transfer' })
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { campaignStatus } from '../../../lib/crowdfunding'
+import { listArchivedCampaigns, listCampaigns } from '../../../lib/storage'
+
+// Lists campaigns. Operators create them through /api/admin/campaigns. With
+// ?archived=true, lists the campaigns archived by key rotations instead.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    if (req.query.archived === 'true') {
+      const archived = await listArchivedCampaigns()
+      return res.status(200).json({
+        campaigns: archived.map(({ issuerKey, archivedAt, campaign }) => {
+          const { investors, ...summary } = campaignStatus(campaign)
+          return { ...summary, issuerKey, archivedAt }
+        })
+      })
+    }
+
+    const campaigns = await listCampaigns()
+    res.status(200).json({
+      campaigns: campaigns.map(campaign => {
+        const { investors, ...summary } = campaignStatus(campaign)
+        return summary
+      })
+    })
+  } catch (error: any) {
+    console.error('Campaigns error:', error)
+    res.status(500).json({ error: error.message || 'Failed to list campaigns' })
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { listEvents } from '../../lib/storage'
+import { eventView } from '../../lib/eventLog'
+
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 1000
+
+function parseCount(value: unknown): number | undefined {
+  if (value === undefined) return undefined
+  const count = Number(value)
+  return Number.isSafeInteger(count) && count >= 0 ? count : NaN
+}
+
+// Pages through the append-only event log in sequence order, optionally for one
+// campaign. Pass the returned `next` as `after` to fetch the following page.
+// The feed is public, so events are shown with no more detail than campaign status.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const after = parseCount(req.query.after) ?? 0
+  const limit = parseCount(req.query.limit) ?? DEFAULT_PAGE_SIZE
+  const { campaignId } = req.query
+
+  if (Number.isNaN(after)) {
+    return res.status(400).json({ error: 'Invalid after parameter' })
+  }
+  if (Number.isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` })
+  }
+  if (campaignId !== undefined && typeof campaignId !== 'string') {
+    return res.status(400).json({ error: 'Invalid campaignId parameter' })
+  }
+
+  try {
+    const events = await listEvents({ campaignId, after, limit })
+    res.status(200).json({
+      events: events.map(eventView),
+      // Set when the page is full and more events may follow
+      next: events.length === limit ? events[events.length - 1].sequence : undefined
+    })
+  } catch (error: any) {
+    console.error('Events error:', error)
+    res.status(500).json({ error: error.message || 'Failed to list events' })
+  }
+}
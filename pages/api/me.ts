@@ -0,0 +1,66 @@
+import type { NextApiResponse } from 'next'
+import { claimState, investorView } from '../../lib/crowdfunding'
+import { listCampaigns } from '../../lib/storage'
+import { PaymentRequest, authenticate } from '../../lib/middleware'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// Portfolio of the authenticated identity: its investments across all campaigns, and
+// tokens other investors transferred to it
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const identityKey = await authenticate(req, res)
+  if (!identityKey) return
+
+  try {
+    const campaigns = await listCampaigns()
+
+    const investments = campaigns.flatMap(campaign => {
+      const investor = campaign.investors.find(inv => inv.identityKey === identityKey)
+      if (!investor) return []
+      return [{
+        campaign: {
+          id: campaign.id,
+          title: campaign.title,
+          status: campaign.status,
+          goal: campaign.goal,
+          raised: campaign.raised,
+          isComplete: campaign.isComplete
+        },
+        ...investorView(investor),
+        share: campaign.raised > 0 ? investor.amount / campaign.raised : 0,
+        claimState: claimState(campaign, investor)
+      }]
+    })
+
+    const received = campaigns.flatMap(campaign =>
+      campaign.investors
+        .filter(inv => inv.token?.holderKey === identityKey)
+        .map(inv => ({
+          campaignId: campaign.id,
+          campaignTitle: campaign.title,
+          investorKey: inv.identityKey,
+          amount: inv.amount,
+          share: campaign.raised > 0 ? inv.amount / campaign.raised : 0,
+          token: inv.token
+        }))
+    )
+
+    res.status(200).json({
+      identityKey,
+      totalInvested: investments.reduce((sum, investment) => sum + investment.amount, 0),
+      investments,
+      received
+    })
+  } catch (error: any) {
+    console.error('Portfolio error:', error)
+    res.status(500).json({ error: error.message || 'Failed to load portfolio' })
+  }
+}
@@ -0,0 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getOverlayEngine } from '../../../lib/overlay'
+
+// Overlay lookup endpoint (POST /lookup of an overlay host), usable by the SDK's
+// LookupResolver. Body: { service, query }. Returns an output-list answer.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { service, query } = req.body ?? {}
+
+  if (typeof service !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid service parameter' })
+  }
+
+  try {
+    res.status(200).json(await getOverlayEngine().lookup({ service, query }))
+  } catch (error: any) {
+    console.error('Overlay lookup error:', error)
+    res.status(400).json({ error: error.message || 'Lookup failed' })
+  }
+}
@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { Utils } from '@bsv/sdk'
+import { getOverlayEngine } from '../../../lib/overlay'
+
+// The body is raw BEEF, as sent by the SDK's TopicBroadcaster
+export const config = {
+  api: {
+    bodyParser: false
+  }
+}
+
+async function readBody(req: NextApiRequest): Promise<number[]> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(Buffer.from(chunk))
+  }
+  return [...Buffer.concat(chunks)]
+}
+
+// Overlay submission endpoint (POST /submit of an overlay host).
+// Body: BEEF, or with x-includes-off-chain-values: true, a varint BEEF length, the BEEF
+// and the off-chain values. X-Topics: JSON array of topics. Returns the STEAK.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  let topics: unknown
+  try {
+    topics = JSON.parse(String(req.headers['x-topics']))
+  } catch {
+    topics = undefined
+  }
+  if (!Array.isArray(topics) || !topics.every(topic => typeof topic === 'string')) {
+    return res.status(400).json({ error: 'Missing or invalid X-Topics header' })
+  }
+
+  try {
+    let beef = await readBody(req)
+    let offChainValues: number[] | undefined
+    if (req.headers['x-includes-off-chain-values'] === 'true') {
+      const reader = new Utils.Reader(beef)
+      const length = reader.readVarIntNum()
+      beef = reader.read(length)
+      offChainValues = reader.read()
+    }
+
+    const steak = await getOverlayEngine().submit({ beef, topics, offChainValues })
+    res.status(200).json(steak)
+  } catch (error: any) {
+    console.error('Overlay submit error:', error)
+    res.status(400).json({ error: error.message || 'Failed to submit transaction' })
+  }
+}
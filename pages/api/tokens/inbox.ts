@@ -0,0 +1,67 @@
+import type { NextApiResponse } from 'next'
+import { getCampaign, listCampaigns, updateCampaign } from '../../../lib/storage'
+import { PaymentRequest, authenticate } from '../../../lib/middleware'
+
+export const config = {
+  api: {
+    externalResolver: true
+  }
+}
+
+// Tokens transferred to the authenticated identity.
+// GET lists transfers not yet acknowledged; POST { campaignId, txid } acknowledges
+// one once the recipient has internalized it.
+export default async function handler(req: PaymentRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const identityKey = await authenticate(req, res)
+  if (!identityKey) return
+
+  if (req.method === 'GET') {
+    const campaigns = await listCampaigns()
+    const transfers = campaigns.flatMap(campaign =>
+      (campaign.transfers ?? [])
+        .filter(transfer => transfer.toKey === identityKey && !transfer.acknowledged)
+        .map(transfer => ({
+          campaignId: campaign.id,
+          campaignTitle: campaign.title,
+          fromKey: transfer.fromKey,
+          txid: transfer.txid,
+          outputIndex: transfer.outputIndex,
+          tx: transfer.tx,
+          timestamp: transfer.timestamp
+        }))
+    )
+    return res.status(200).json({ transfers })
+  }
+
+  const { campaignId, txid } = req.body ?? {}
+
+  if (typeof campaignId !== 'string' || typeof txid !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid campaignId or txid parameter' })
+  }
+
+  if (!(await getCampaign(campaignId))) {
+    return res.status(404).json({ error: 'Campaign not found' })
+  }
+
+  try {
+    const { status, body } = await updateCampaign(campaignId, (campaign, record) => {
+      const transfer = campaign.transfers?.find(
+        transfer => transfer.txid === txid && transfer.toKey === identityKey
+      )
+      if (!transfer) {
+        return { status: 404, body: { error: 'Transfer not found' } }
+      }
+      record({ type: 'transfer-acknowledged', txid })
+      return { status: 200, body: { success: true } }
+    })
+
+    res.status(status).json(body)
+  } catch (error: any) {
+    console.error('Inbox error:', error)
+    res.status(500).json({ error: error.message || 'Failed to acknowledge transfer' })
+  }
+}
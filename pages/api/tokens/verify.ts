@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { Utils } from '@bsv/sdk'
+import { verifyToken } from '../../../lib/verification'
+
+// Public token verification for third parties.
+// POST { outpoint: "txid.vout", beef: base64 BEEF containing the transaction }
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { outpoint, beef } = req.body ?? {}
+
+  if (typeof outpoint !== 'string' || !/^[0-9a-f]{64}\.\d+$/.test(outpoint)) {
+    return res.status(400).json({ error: 'Missing or invalid outpoint parameter' })
+  }
+
+  if (typeof beef !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid beef parameter' })
+  }
+
+  try {
+    res.status(200).json(await verifyToken(Utils.toArray(beef, 'base64'), outpoint))
+  } catch (error: any) {
+    console.error('Verification error:', error)
+    res.status(500).json({ error: error.message || 'Failed to verify token' })
+  }
+}
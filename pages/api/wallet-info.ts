@@ -1,14 +1,16 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { wallet } from '../../src/wallet'
-import { loadCrowdfundingData } from '../../lib/storage'
-import { setCrowdfundingState } from '../../lib/crowdfunding'
+import { getOperatorKeys } from '../../lib/operators'
+import { listKeyRotations } from '../../lib/storage'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const identityKey = await wallet.getPublicKey({ identityKey: true })
+  const rotations = await listKeyRotations()
 
-  // Load crowdfunding state for this wallet
-  const loadedState = loadCrowdfundingData(identityKey.publicKey)
-  setCrowdfundingState(loadedState)
-
-  res.status(200).json({ identityKey: identityKey.publicKey })
+  res.status(200).json({
+    identityKey: identityKey.publicKey,
+    // Earlier backend identities, oldest first, which issued the tokens minted before each key rotation
+    priorIssuerKeys: rotations.map(rotation => rotation.previousIdentity),
+    operators: getOperatorKeys()
+  })
 }
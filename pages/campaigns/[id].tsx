@@ -0,0 +1,632 @@
+'use client'
+import { useState, useEffect, useMemo } from 'react'
+import { AuthFetch, Utils, WalletProtocol, Random } from '@bsv/sdk'
+import Link from 'next/link'
+import { useRouter } from 'next/router'
+import styles from '../../styles/Home.module.css'
+import { useWallet } from '@/lib/wallet'
+import { tokenCustomInstructions } from '@/lib/token'
+
+const brc29ProtocolID: WalletProtocol = [2, '3241645161d8']
+
+export default function CampaignDetail() {
+  const router = useRouter()
+  const campaignId = typeof router.query.id === 'string' ? router.query.id : null
+  const { wallet, identityKey } = useWallet()
+  const [backendIdentityKey, setBackendIdentityKey] = useState<string | null>(null)
+  const [operators, setOperators] = useState<string[]>([])
+  const [status, setStatus] = useState<any>(null)
+  const [amount, setAmount] = useState(1000)
+  const [message, setMessage] = useState('')
+  const [messageType, setMessageType] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [activity, setActivity] = useState('')
+
+  // Invest and claim requests are mutually authenticated (BRC-103), so the
+  // backend credits the identity that signed them. One AuthFetch keeps the session.
+  const authFetch = useMemo(() => wallet ? new AuthFetch(wallet) : null, [wallet])
+
+  async function getWalletInfo() {
+    const response = await fetch('/api/wallet-info')
+    const data = await response.json()
+    setBackendIdentityKey(data.identityKey)
+    setOperators(data.operators ?? [])
+  }
+
+  async function getStatus() {
+    if (!campaignId) return
+    const response = await fetch(`/api/campaigns/${campaignId}/status`)
+    const data = await response.json()
+    if (response.ok) {
+      setStatus(data)
+    } else {
+      showMessage(data.error || 'Failed to load campaign', 'error')
+    }
+  }
+
+  useEffect(() => {
+    getWalletInfo()
+  }, [])
+
+  useEffect(() => {
+    getStatus()
+  }, [campaignId])
+
+  // Live updates: the server pushes the campaign's status whenever it changes,
+  // so investments by other visitors show up without a refresh
+  useEffect(() => {
+    if (!campaignId) return
+    const events = new EventSource(`/api/campaigns/${campaignId}/events`)
+    events.addEventListener('progress', (e) => {
+      setStatus(JSON.parse(e.data).campaign)
+    })
+    events.addEventListener('investor', (e) => {
+      const investor = JSON.parse(e.data)
+      setActivity(investor.isNew
+        ? `New investor ${investor.identityKey} invested ${investor.amount} sats`
+        : `${investor.identityKey} invested another ${investor.amount} sats`)
+    })
+    events.addEventListener('funded', () => {
+      setActivity('Goal reached! Investors can now claim their tokens.')
+    })
+    events.addEventListener('complete', () => {
+      setActivity('All tokens have been distributed.')
+    })
+    return () => events.close()
+  }, [campaignId])
+
+  async function invest() {
+    if (!authFetch) {
+      showMessage('Wallet not connected', 'error')
+      return
+    }
+
+    if (!Number.isSafeInteger(amount) || amount < 1) {
+      showMessage('Please enter a valid amount', 'error')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      showMessage(`Sending ${amount} sats investment...`, 'info')
+
+      // AuthFetch answers the 402 with a payment of the requested amount and retries
+      const response = await authFetch.fetch(`${window.location.origin}/api/campaigns/${campaignId}/invest`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        // Whatever went over the campaign's cap or the investor's maximum is paid back
+        if (data.refund?.status === 'sent' && wallet) {
+          await wallet.internalizeAction({
+            tx: Utils.toArray(data.refund.tx, 'base64'),
+            outputs: [
+              {
+                outputIndex: 0,
+                protocol: 'wallet payment',
+                paymentRemittance: {
+                  derivationPrefix: data.refund.derivationPrefix,
+                  derivationSuffix: data.refund.derivationSuffix,
+                  senderIdentityKey: data.refund.senderIdentityKey
+                }
+              }
+            ],
+            description: 'Crowdfunding excess refund'
+          })
+          showMessage(`Investment successful! ${data.amount} sats received, ${data.refund.amount} sats over the cap refunded.`, 'success')
+        } else {
+          showMessage(`Investment successful! ${data.amount} sats received.`, 'success')
+        }
+        await getStatus()
+      } else {
+        showMessage(data.error || data.description || 'Investment failed', 'error')
+      }
+    } catch (error: any) {
+      console.error('Investment error:', error)
+      showMessage('Error: ' + error.message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function complete(retryCount = 0) {
+    const maxRetries = 2
+    setLoading(true)
+
+    try {
+      showMessage('Claiming token...', 'info')
+
+      if (!wallet || !authFetch || !backendIdentityKey) {
+        showMessage('Wallet not connected', 'error')
+        return
+      }
+
+      const derivationPrefix = Utils.toBase64(Random(8))
+      const derivationSuffix = Utils.toBase64(Random(8))
+
+      const { publicKey: paymentKey } = await wallet.getPublicKey({
+        protocolID: brc29ProtocolID,
+        keyID: derivationPrefix + ' ' + derivationSuffix,
+        counterparty: 'anyone',
+        forSelf: false,
+      })
+
+      // The backend issues the token to the identity that signed this request
+      const response = await authFetch.fetch(`${window.location.origin}/api/campaigns/${campaignId}/complete`, {
+        method: 'POST',
+        body: JSON.stringify({ paymentKey }),
+        headers: { 'Content-Type': 'application/json' }
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        await wallet.internalizeAction({
+          tx: data.tx,
+          outputs: [
+            {
+              outputIndex: data.outputIndex,
+              protocol: 'basket insertion',
+              insertionRemittance: {
+                basket: 'crowdfunding',
+                customInstructions: tokenCustomInstructions(backendIdentityKey)
+              }
+            }
+          ],
+          description: 'Internalize crowdfunding token'
+        })
+
+        showMessage(`Token claimed successfully! TXID: ${data.txid}`, 'success')
+        await getStatus()
+      } else {
+        showMessage(data.error || 'Failed to complete', 'error')
+      }
+    } catch (error: any) {
+      console.error('Complete error:', error)
+
+      if (retryCount < maxRetries) {
+        showMessage(`Connection error, retrying... (${retryCount + 1}/${maxRetries})`, 'info')
+        await new Promise(resolve => setTimeout(resolve, 2000))
+        return complete(retryCount + 1)
+      }
+
+      showMessage('Error: ' + error.message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function distribute() {
+    if (!authFetch) {
+      showMessage('Wallet not connected', 'error')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      showMessage('Distributing tokens to all investors...', 'info')
+
+      const response = await authFetch.fetch(`${window.location.origin}/api/campaigns/${campaignId}/distribute`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' }
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        showMessage(`Tokens distributed to ${data.recipientCount} investors! TXID: ${data.txid}`, 'success')
+        await getStatus()
+      } else {
+        showMessage(data.error || 'Distribution failed', 'error')
+      }
+    } catch (error: any) {
+      console.error('Distribution error:', error)
+      showMessage('Error: ' + error.message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function changeStatus(newStatus: 'active' | 'paused' | 'closed') {
+    if (!authFetch) {
+      showMessage('Wallet not connected', 'error')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const response = await authFetch.fetch(`${window.location.origin}/api/admin/campaigns/${campaignId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setStatus(data)
+        showMessage(`Campaign is now ${data.status}`, 'success')
+      } else {
+        showMessage(data.error || 'Failed to change campaign status', 'error')
+      }
+    } catch (error: any) {
+      console.error('Campaign status error:', error)
+      showMessage('Error: ' + error.message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function exportInvestors(format: 'csv' | 'json') {
+    if (!authFetch) {
+      showMessage('Wallet not connected', 'error')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const response = await authFetch.fetch(`${window.location.origin}/api/admin/campaigns/${campaignId}/export?format=${format}`, {
+        method: 'GET'
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        showMessage(data.error || 'Export failed', 'error')
+        return
+      }
+
+      // Save the export as a file
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `campaign-${campaignId}-investors.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error: any) {
+      console.error('Export error:', error)
+      showMessage('Error: ' + error.message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function claimRefund() {
+    if (!wallet || !backendIdentityKey) {
+      showMessage('Wallet not connected', 'error')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      showMessage('Requesting refund...', 'info')
+
+      const { publicKey: investorKey } = await wallet.getPublicKey({ identityKey: true })
+
+      const response = await fetch(`/api/campaigns/${campaignId}/refund`, {
+        method: 'POST',
+        body: JSON.stringify({ identityKey: investorKey }),
+        headers: { 'Content-Type': 'application/json' }
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        await wallet.internalizeAction({
+          tx: Utils.toArray(data.tx, 'base64'),
+          outputs: [
+            {
+              outputIndex: 0,
+              protocol: 'wallet payment',
+              paymentRemittance: {
+                derivationPrefix: data.derivationPrefix,
+                derivationSuffix: data.derivationSuffix,
+                senderIdentityKey: data.senderIdentityKey
+              }
+            }
+          ],
+          description: 'Crowdfunding refund'
+        })
+
+        showMessage(`Refund of ${data.amount} sats received! TXID: ${data.txid}`, 'success')
+        await getStatus()
+      } else {
+        showMessage(data.error || 'Refund failed', 'error')
+      }
+    } catch (error: any) {
+      console.error('Refund error:', error)
+      showMessage('Error: ' + error.message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function showMessage(text: string, type: string) {
+    setMessage(text)
+    setMessageType(type)
+    setTimeout(() => setMessage(''), 5000)
+  }
+
+  const isWalletConnected = !!wallet
+  // Best tier the entered amount reaches that is not sold out
+  const amountTier = status?.tiers
+    ?.filter((tier: any) => tier.minAmount <= amount && tier.remaining !== 0)
+    .sort((a: any, b: any) => b.minAmount - a.minAmount)[0]
+  const isFullyLoaded = wallet && backendIdentityKey && status
+  const isOperator = !!identityKey && operators.includes(identityKey)
+  const isClosed = status?.isComplete || status?.status !== 'active' || status?.raised >= status?.fundingCap ||
+    (status?.deadline !== undefined && Date.now() >= status.deadline)
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.card}>
+        <div className={styles.header}>
+          <div>
+            <Link href="/" className={styles.backLink}>
+              ← All campaigns
+            </Link>
+            <h1>{status?.title ?? 'Campaign'}</h1>
+            <p className={styles.subtitle}>{status?.description || 'Pay with BSV Wallet and receive PushDrop tokens'}</p>
+          </div>
+          <div className={styles.walletStatus}>
+            {isWalletConnected ? (
+              <div className={styles.statusBadge + ' ' + styles.connected}>
+                <span className={styles.statusIcon}>✓</span>
+                <span>Wallet Connected</span>
+              </div>
+            ) : (
+              <button
+                className={styles.statusBadge + ' ' + styles.disconnected + ' ' + styles.clickable}
+                onClick={() => window.location.reload()}
+                title="Click to connect wallet"
+              >
+                <span className={styles.statusIcon}>✕</span>
+                <span>{loading ? 'Connecting...' : 'Click to Connect'}</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {isFullyLoaded && (
+          <>
+            <div className={styles.statusCard}>
+              <div className={styles.stat}>
+                <span>Goal:</span>
+                <span>{status.goal} sats</span>
+              </div>
+              <div className={styles.stat}>
+                <span>Raised:</span>
+                <span>{status.raised} sats</span>
+              </div>
+              {status.hardCap !== undefined && (
+                <div className={styles.stat}>
+                  <span>Hard cap:</span>
+                  <span>{status.hardCap} sats</span>
+                </div>
+              )}
+              <div className={styles.stat}>
+                <span>Investors:</span>
+                <span>{status.investorCount}</span>
+              </div>
+
+              <div className={styles.progressBar}>
+                <div className={styles.progressFill} style={{ width: `${status.percentFunded}%` }}>
+                  {status.percentFunded}%
+                </div>
+              </div>
+
+              {activity && (
+                <div className={styles.stat}>
+                  <span style={{ fontSize: '14px' }}>{activity}</span>
+                </div>
+              )}
+
+              {status.deadline !== undefined && (
+                <div className={styles.stat}>
+                  <span>Deadline:</span>
+                  <span>{new Date(status.deadline).toLocaleString()}</span>
+                </div>
+              )}
+
+              <div className={styles.stat}>
+                <span>Status:</span>
+                <span>{status.isComplete ? 'FUNDED' : status.status === 'active' ? 'Active' : status.status.toUpperCase()}</span>
+              </div>
+
+              {(status.minInvestment !== undefined || status.maxInvestment !== undefined) && (
+                <div className={styles.stat}>
+                  <span>Investment limits:</span>
+                  <span>
+                    {status.minInvestment !== undefined ? `min ${status.minInvestment} sats` : ''}
+                    {status.minInvestment !== undefined && status.maxInvestment !== undefined ? ', ' : ''}
+                    {status.maxInvestment !== undefined ? `max ${status.maxInvestment} sats per investor` : ''}
+                  </span>
+                </div>
+              )}
+
+              {status.status === 'failed' && (
+                <div className={styles.stat} style={{ marginTop: '10px', padding: '10px', background: '#fee2e2', borderRadius: '8px' }}>
+                  <span style={{ color: '#991b1b', fontSize: '14px' }}>
+                    <strong>Goal not reached - investments are refunded</strong>
+                  </span>
+                </div>
+              )}
+
+              {status.raised >= status.goal && !status.claimsOpen && status.status !== 'failed' && (
+                <div className={styles.stat} style={{ marginTop: '10px', padding: '10px', background: '#d1fae5', borderRadius: '8px' }}>
+                  <span style={{ color: '#065f46', fontSize: '14px' }}>
+                    <strong>Goal reached - tokens can be claimed once the campaign closes or reaches its hard cap</strong>
+                  </span>
+                </div>
+              )}
+
+              {status.isComplete && status.completionTxid && (
+                <div className={styles.stat} style={{ marginTop: '10px', padding: '10px', background: '#d1fae5', borderRadius: '8px' }}>
+                  <span style={{ color: '#065f46', fontSize: '14px' }}>
+                    <strong>Tokens Distributed!</strong>
+                  </span>
+                  <a
+                    href={`https://whatsonchain.com/tx/${status.completionTxid}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ color: '#059669', fontSize: '12px', fontFamily: 'monospace', textDecoration: 'underline' }}
+                  >
+                    TX: {status.completionTxid.slice(0, 16)}...
+                  </a>
+                </div>
+              )}
+            </div>
+
+            {status.investors && status.investors.length > 0 && (
+              <div className={styles.investorList}>
+                <h3>Investors</h3>
+                {status.investors.map((inv: any, idx: number) => (
+                  <div key={idx} className={styles.investorItem}>
+                    <span className={styles.investorKey}>
+                      {inv.identityKey}
+                      {inv.contributions?.length > 1 ? ` (${inv.contributions.length} payments)` : ''}
+                    </span>
+                    <span className={styles.investorAmount}>
+                      {inv.amount} sats{inv.refundStatus === 'sent' ? ' (refunded)' : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {status.tiers?.length > 0 && (
+              <div className={styles.investorList}>
+                <h3>Reward Tiers</h3>
+                {status.tiers.map((tier: any) => (
+                  <div
+                    key={tier.name}
+                    className={styles.investorItem}
+                    style={tier.name === amountTier?.name ? { background: '#d1fae5' } : undefined}
+                  >
+                    <span>
+                      <strong>{tier.name}</strong> (from {tier.minAmount} sats){tier.perk ? ` - ${tier.perk}` : ''}
+                    </span>
+                    <span className={styles.investorAmount}>
+                      {tier.remaining === undefined ? 'Unlimited' : tier.remaining === 0 ? 'Sold out' : `${tier.remaining} of ${tier.quantity} left`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className={styles.inputGroup}>
+              <label htmlFor="amount">
+                Investment Amount (satoshis){amountTier ? ` - qualifies for ${amountTier.name}` : ''}
+              </label>
+              <input
+                type="number"
+                id="amount"
+                value={amount}
+                onChange={(e) => setAmount(parseInt(e.target.value))}
+                min={status.minInvestment ?? 1}
+                max={Math.min(status.maxInvestment ?? Infinity, status.fundingCap - status.raised)}
+                disabled={loading || isClosed}
+              />
+            </div>
+
+            <button
+              className={styles.btnPrimary}
+              onClick={invest}
+              disabled={loading || isClosed}
+            >
+              {loading ? 'Processing...' : 'Invest with BSV Wallet'}
+            </button>
+
+            {status.status === 'failed' && (
+              <button
+                className={styles.btnSuccess}
+                onClick={claimRefund}
+                disabled={loading}
+              >
+                {loading ? 'Refunding...' : 'Claim Refund'}
+              </button>
+            )}
+
+            {isOperator && (status.status === 'active' || status.status === 'paused') && (
+              <div className={styles.stat}>
+                <button
+                  className={styles.btnPrimary}
+                  onClick={() => changeStatus(status.status === 'paused' ? 'active' : 'paused')}
+                  disabled={loading}
+                >
+                  {status.status === 'paused' ? 'Resume Campaign' : 'Pause Campaign'}
+                </button>
+                <button
+                  className={styles.btnPrimary}
+                  onClick={() => changeStatus('closed')}
+                  disabled={loading}
+                >
+                  Close Campaign
+                </button>
+              </div>
+            )}
+
+            {isOperator && (
+              <div className={styles.stat}>
+                <button
+                  className={styles.btnPrimary}
+                  onClick={() => exportInvestors('csv')}
+                  disabled={loading}
+                >
+                  Export Investors (CSV)
+                </button>
+                <button
+                  className={styles.btnPrimary}
+                  onClick={() => exportInvestors('json')}
+                  disabled={loading}
+                >
+                  Export Investors (JSON)
+                </button>
+              </div>
+            )}
+
+            {isOperator && status.claimsOpen && !status.isComplete && (
+              <button
+                className={styles.btnSuccess}
+                onClick={distribute}
+                disabled={loading}
+              >
+                {loading ? 'Distributing...' : 'Distribute Tokens to All Investors'}
+              </button>
+            )}
+
+            {((status.claimsOpen && !status.isComplete) || status.distributionTxid) && (
+              <button
+                className={styles.btnSuccess}
+                onClick={() => complete()}
+                disabled={loading}
+              >
+                {loading ? 'Claiming...' : 'Claim Tokens'}
+              </button>
+            )}
+
+            <Link href="/tokens">
+              <button className={styles.btnPrimary} style={{ marginTop: '10px' }}>
+                View My Tokens
+              </button>
+            </Link>
+          </>
+        )}
+
+        {message && (
+          <div className={`${styles.message} ${styles[messageType]}`}>
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
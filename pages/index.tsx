@@ -1,196 +1,123 @@
-'use client'
-import { useState, useEffect } from 'react'
-import { P2PKH, PublicKey, Utils, WalletProtocol, Random } from '@bsv/sdk'
+import { useState, useEffect, useMemo } from 'react'
 import Link from 'next/link'
+import { AuthFetch } from '@bsv/sdk'
 import styles from '../styles/Home.module.css'
 import { useWallet } from '@/lib/wallet'
 
-const brc29ProtocolID: WalletProtocol = [2, '3241645161d8']
+// Reward tier being entered in the creation form, with numbers as typed
+interface TierInput {
+  name: string
+  minAmount: string
+  perk: string
+  quantity: string
+}
+
+const EMPTY_TIER: TierInput = { name: '', minAmount: '', perk: '', quantity: '' }
 
 export default function Home() {
-  const { wallet } = useWallet()
-  const [backendIdentityKey, setBackendIdentityKey] = useState<string | null>(null)
-  const [status, setStatus] = useState<any>(null)
-  const [amount, setAmount] = useState(1000)
+  const { wallet, identityKey } = useWallet()
+  const [campaigns, setCampaigns] = useState<any[] | null>(null)
+  const [operators, setOperators] = useState<string[]>([])
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [goal, setGoal] = useState(1000)
+  const [deadline, setDeadline] = useState('')
+  const [minInvestment, setMinInvestment] = useState('')
+  const [maxInvestment, setMaxInvestment] = useState('')
+  const [hardCap, setHardCap] = useState('')
+  const [tiers, setTiers] = useState<TierInput[]>([])
   const [message, setMessage] = useState('')
   const [messageType, setMessageType] = useState('')
   const [loading, setLoading] = useState(false)
 
-  async function getWalletInfo() {
+  // Campaign creation is an operator action, authenticated with BRC-103
+  const authFetch = useMemo(() => wallet ? new AuthFetch(wallet) : null, [wallet])
+
+  async function getOperators() {
     const response = await fetch('/api/wallet-info')
     const data = await response.json()
-    setBackendIdentityKey(data.identityKey)
+    setOperators(data.operators ?? [])
   }
 
-  async function getStatus() {
-    const response = await fetch('/api/status')
+  async function getCampaigns() {
+    const response = await fetch('/api/campaigns')
     const data = await response.json()
-    setStatus(data)
+    setCampaigns(data.campaigns)
   }
 
   useEffect(() => {
-    getWalletInfo()
-    getStatus()
+    getCampaigns()
+    getOperators()
   }, [])
 
-  async function invest() {
-    if (!wallet || !backendIdentityKey) {
+  async function createCampaign() {
+    if (!authFetch) {
       showMessage('Wallet not connected', 'error')
       return
     }
 
-    if (amount < 1) {
-      showMessage('Please enter a valid amount', 'error')
+    if (!title.trim()) {
+      showMessage('Please enter a campaign title', 'error')
       return
     }
 
-    setLoading(true)
-
-    try {
-      showMessage('Preparing investment...', 'info')
-
-      const { publicKey: investorKey } = await wallet.getPublicKey({ identityKey: true })
-
-      let response = await fetch('/api/invest', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
-      })
-
-      if (response.status === 402) {
-        const derivationPrefix = response.headers.get('x-bsv-payment-derivation-prefix')
-
-        if (!derivationPrefix) {
-          throw new Error('Missing payment derivation prefix from server')
-        }
-
-        const investmentAmount = amount
-        const derivationSuffix = Utils.toBase64(Utils.toArray('investment' + Date.now(), 'utf8'))
-
-        const { publicKey: derivedPublicKey } = await wallet.getPublicKey({
-          counterparty: backendIdentityKey,
-          protocolID: brc29ProtocolID,
-          keyID: `${derivationPrefix} ${derivationSuffix}`,
-          forSelf: false
-        })
-
-        const lockingScript = new P2PKH().lock(PublicKey.fromString(derivedPublicKey).toAddress()).toHex()
-
-        showMessage(`Creating transaction for ${investmentAmount} sats...`, 'info')
-
-        const result = await wallet.createAction({
-          outputs: [{
-            lockingScript,
-            satoshis: investmentAmount,
-            outputDescription: 'Crowdfunding investment'
-          }],
-          description: 'Investment in crowdfunding',
-          options: { randomizeOutputs: false }
-        })
-
-        if (!result.tx) {
-          throw new Error('Transaction creation failed')
-        }
-
-        const paymentHeader = JSON.stringify({
-          derivationPrefix,
-          derivationSuffix,
-          transaction: Utils.toBase64(result.tx),
-          senderIdentityKey: investorKey,
-          amount: investmentAmount
-        })
-
-        showMessage('Sending payment to blockchain...', 'info')
-
-        response = await fetch('/api/invest', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-bsv-payment': paymentHeader
-          }
-        })
-      }
-
-      const data = await response.json()
-
-      if (response.ok) {
-        showMessage(`Investment successful! ${data.amount} sats received.`, 'success')
-        await getStatus()
-      } else {
-        showMessage(data.error || 'Investment failed', 'error')
-      }
-    } catch (error: any) {
-      console.error('Investment error:', error)
-      showMessage('Error: ' + error.message, 'error')
-    } finally {
-      setLoading(false)
+    if (!(goal >= 1)) {
+      showMessage('Please enter a valid goal', 'error')
+      return
     }
-  }
 
-  async function complete(retryCount = 0) {
-    const maxRetries = 2
     setLoading(true)
 
     try {
-      showMessage('Claiming token...', 'info')
-
-      if (!wallet) {
-        showMessage('Wallet not connected', 'error')
-        return
-      }
-
-      const { publicKey: investorKey } = await wallet.getPublicKey({ identityKey: true })
-
-      const derivationPrefix = Utils.toBase64(Random(8))
-      const derivationSuffix = Utils.toBase64(Random(8))
-
-      const { publicKey: paymentKey } = await wallet.getPublicKey({
-        protocolID: brc29ProtocolID,
-        keyID: derivationPrefix + ' ' + derivationSuffix,
-        counterparty: 'anyone',
-        forSelf: false,
-      })
-
-      const response = await fetch('/api/complete', {
+      const response = await authFetch.fetch(`${window.location.origin}/api/admin/campaigns`, {
         method: 'POST',
-        body: JSON.stringify({ identityKey: investorKey, paymentKey }),
+        body: JSON.stringify({
+          title,
+          description,
+          goal,
+          deadline: deadline ? new Date(deadline).getTime() : undefined,
+          minInvestment: minInvestment ? parseInt(minInvestment) : undefined,
+          maxInvestment: maxInvestment ? parseInt(maxInvestment) : undefined,
+          hardCap: hardCap ? parseInt(hardCap) : undefined,
+          tiers: tiers.length > 0
+            ? tiers.map(tier => ({
+              name: tier.name,
+              minAmount: parseInt(tier.minAmount),
+              perk: tier.perk,
+              quantity: tier.quantity ? parseInt(tier.quantity) : undefined
+            }))
+            : undefined
+        }),
         headers: { 'Content-Type': 'application/json' }
       })
 
       const data = await response.json()
 
       if (response.ok) {
-        await wallet.internalizeAction({
-          tx: data.tx,
-          outputs: [
-            {
-              outputIndex: 0,
-              protocol: 'basket insertion',
-              insertionRemittance: { basket: 'crowdfunding' }
-            }
-          ],
-          description: 'Internalize crowdfunding token'
-        })
-
-        showMessage(`Token claimed successfully! TXID: ${data.txid}`, 'success')
-        await getStatus()
+        showMessage(`Campaign "${data.title}" created!`, 'success')
+        setTitle('')
+        setDescription('')
+        setDeadline('')
+        setMinInvestment('')
+        setMaxInvestment('')
+        setHardCap('')
+        setTiers([])
+        await getCampaigns()
       } else {
-        showMessage(data.error || 'Failed to complete', 'error')
+        showMessage(data.error || 'Failed to create campaign', 'error')
       }
     } catch (error: any) {
-      console.error('Complete error:', error)
-
-      if (retryCount < maxRetries) {
-        showMessage(`Connection error, retrying... (${retryCount + 1}/${maxRetries})`, 'info')
-        await new Promise(resolve => setTimeout(resolve, 2000))
-        return complete(retryCount + 1)
-      }
-
+      console.error('Create campaign error:', error)
       showMessage('Error: ' + error.message, 'error')
     } finally {
       setLoading(false)
     }
   }
 
+  function updateTier(index: number, field: keyof TierInput, value: string) {
+    setTiers(tiers.map((tier, i) => i === index ? { ...tier, [field]: value } : tier))
+  }
+
   function showMessage(text: string, type: string) {
     setMessage(text)
     setMessageType(type)
@@ -198,7 +125,7 @@ export default function Home() {
   }
 
   const isWalletConnected = !!wallet
-  const isFullyLoaded = wallet && backendIdentityKey && status
+  const isOperator = !!identityKey && operators.includes(identityKey)
 
   return (
     <div className={styles.container}>
@@ -221,106 +148,201 @@ export default function Home() {
                 title="Click to connect wallet"
               >
                 <span className={styles.statusIcon}>✕</span>
-                <span>{loading ? 'Connecting...' : 'Click to Connect'}</span>
+                <span>Click to Connect</span>
               </button>
             )}
           </div>
         </div>
 
-        {isFullyLoaded && (
-          <>
-            <div className={styles.statusCard}>
-              <div className={styles.stat}>
-                <span>Goal:</span>
-                <span>{status.goal} sats</span>
-              </div>
-              <div className={styles.stat}>
-                <span>Raised:</span>
-                <span>{status.raised} sats</span>
-              </div>
-              <div className={styles.stat}>
-                <span>Investors:</span>
-                <span>{status.investorCount}</span>
-              </div>
-
-              <div className={styles.progressBar}>
-                <div className={styles.progressFill} style={{ width: `${status.percentFunded}%` }}>
-                  {status.percentFunded}%
-                </div>
-              </div>
-
-              <div className={styles.stat}>
-                <span>Status:</span>
-                <span>{status.isComplete ? 'FUNDED' : 'Active'}</span>
-              </div>
-
-              {status.isComplete && status.completionTxid && (
-                <div className={styles.stat} style={{ marginTop: '10px', padding: '10px', background: '#d1fae5', borderRadius: '8px' }}>
-                  <span style={{ color: '#065f46', fontSize: '14px' }}>
-                    <strong>Tokens Distributed!</strong>
+        {campaigns === null ? (
+          <div className={styles.statusCard}>
+            <p>Loading campaigns...</p>
+          </div>
+        ) : (
+          <div className={styles.investorList}>
+            <h3>Campaigns ({campaigns.length})</h3>
+            {campaigns.map((campaign) => (
+              <Link key={campaign.id} href={`/campaigns/${campaign.id}`} className={styles.campaignItem}>
+                <div className={styles.campaignHeader}>
+                  <span className={styles.campaignTitle}>{campaign.title}</span>
+                  <span className={styles.investorAmount}>
+                    {campaign.isComplete
+                      ? 'FUNDED'
+                      : campaign.status === 'failed'
+                        ? 'FAILED'
+                        : campaign.status === 'closed'
+                          ? 'CLOSED'
+                          : `${campaign.raised} / ${campaign.goal} sats${campaign.status === 'paused' ? ' (paused)' : ''}`}
                   </span>
-                  <a
-                    href={`https://whatsonchain.com/tx/${status.completionTxid}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    style={{ color: '#059669', fontSize: '12px', fontFamily: 'monospace', textDecoration: 'underline' }}
-                  >
-                    TX: {status.completionTxid.slice(0, 16)}...
-                  </a>
                 </div>
-              )}
-            </div>
-
-            {status.investors && status.investors.length > 0 && (
-              <div className={styles.investorList}>
-                <h3>Investors</h3>
-                {status.investors.map((inv: any, idx: number) => (
-                  <div key={idx} className={styles.investorItem}>
-                    <span className={styles.investorKey}>{inv.identityKey}</span>
-                    <span className={styles.investorAmount}>{inv.amount} sats</span>
+                {campaign.description && (
+                  <p className={styles.campaignDescription}>{campaign.description}</p>
+                )}
+                {campaign.tiers?.length > 0 && (
+                  <p className={styles.campaignDescription}>
+                    Rewards: {campaign.tiers.map((tier: any) =>
+                      `${tier.name} from ${tier.minAmount} sats (${tier.remaining === undefined ? 'unlimited' : tier.remaining === 0 ? 'sold out' : `${tier.remaining} left`})`
+                    ).join(', ')}
+                  </p>
+                )}
+                <div className={styles.progressBar}>
+                  <div className={styles.progressFill} style={{ width: `${Math.min(campaign.percentFunded, 100)}%` }}>
+                    {campaign.percentFunded}%
                   </div>
-                ))}
-              </div>
-            )}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
 
+        {isOperator && (
+          <div className={styles.statusCard}>
+            <h3>New Campaign</h3>
             <div className={styles.inputGroup}>
-              <label htmlFor="amount">Investment Amount (satoshis)</label>
+              <label htmlFor="title">Title</label>
+              <input
+                type="text"
+                id="title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div className={styles.inputGroup}>
+              <label htmlFor="description">Description</label>
+              <input
+                type="text"
+                id="description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div className={styles.inputGroup}>
+              <label htmlFor="goal">Goal (satoshis)</label>
               <input
                 type="number"
-                id="amount"
-                value={amount}
-                onChange={(e) => setAmount(parseInt(e.target.value))}
+                id="goal"
+                value={goal}
+                onChange={(e) => setGoal(parseInt(e.target.value))}
                 min="1"
-                disabled={loading || status.isComplete}
+                disabled={loading}
               />
             </div>
-
+            <div className={styles.inputGroup}>
+              <label htmlFor="deadline">Deadline (optional)</label>
+              <input
+                type="datetime-local"
+                id="deadline"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div className={styles.inputGroup}>
+              <label htmlFor="minInvestment">Minimum investment (satoshis, optional)</label>
+              <input
+                type="number"
+                id="minInvestment"
+                value={minInvestment}
+                onChange={(e) => setMinInvestment(e.target.value)}
+                min="1"
+                disabled={loading}
+              />
+            </div>
+            <div className={styles.inputGroup}>
+              <label htmlFor="maxInvestment">Maximum per investor (satoshis, optional)</label>
+              <input
+                type="number"
+                id="maxInvestment"
+                value={maxInvestment}
+                onChange={(e) => setMaxInvestment(e.target.value)}
+                min="1"
+                disabled={loading}
+              />
+            </div>
+            <div className={styles.inputGroup}>
+              <label htmlFor="hardCap">Hard cap (satoshis, optional - defaults to the goal)</label>
+              <input
+                type="number"
+                id="hardCap"
+                value={hardCap}
+                onChange={(e) => setHardCap(e.target.value)}
+                min={goal}
+                disabled={loading}
+              />
+            </div>
+            {tiers.map((tier, index) => (
+              <div key={index} className={styles.inputGroup}>
+                <label>Reward tier {index + 1}</label>
+                <input
+                  type="text"
+                  placeholder="Name, e.g. Backer"
+                  value={tier.name}
+                  onChange={(e) => updateTier(index, 'name', e.target.value)}
+                  disabled={loading}
+                />
+                <input
+                  type="number"
+                  placeholder="Minimum amount (satoshis)"
+                  value={tier.minAmount}
+                  onChange={(e) => updateTier(index, 'minAmount', e.target.value)}
+                  min="1"
+                  disabled={loading}
+                />
+                <input
+                  type="text"
+                  placeholder="Perk"
+                  value={tier.perk}
+                  onChange={(e) => updateTier(index, 'perk', e.target.value)}
+                  disabled={loading}
+                />
+                <input
+                  type="number"
+                  placeholder="Quantity (optional)"
+                  value={tier.quantity}
+                  onChange={(e) => updateTier(index, 'quantity', e.target.value)}
+                  min="1"
+                  disabled={loading}
+                />
+                <button
+                  className={styles.btnPrimary}
+                  onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                  disabled={loading}
+                >
+                  Remove Tier
+                </button>
+              </div>
+            ))}
             <button
               className={styles.btnPrimary}
-              onClick={invest}
-              disabled={loading || status.isComplete}
+              onClick={() => setTiers([...tiers, EMPTY_TIER])}
+              disabled={loading}
             >
-              {loading ? 'Processing...' : 'Invest with BSV Wallet'}
+              Add Reward Tier
             </button>
-
-            {status.raised >= status.goal && !status.isComplete && (
-              <button
-                className={styles.btnSuccess}
-                onClick={() => complete()}
-                disabled={loading}
-              >
-                {loading ? 'Claiming...' : 'Claim Tokens'}
-              </button>
-            )}
-
-            <Link href="/tokens">
-              <button className={styles.btnPrimary} style={{ marginTop: '10px' }}>
-                View My Tokens
-              </button>
-            </Link>
-          </>
+            <button
+              className={styles.btnSuccess}
+              onClick={createCampaign}
+              disabled={loading}
+            >
+              {loading ? 'Creating...' : 'Create Campaign'}
+            </button>
+          </div>
         )}
 
+        <Link href="/portfolio">
+          <button className={styles.btnPrimary} style={{ marginTop: '10px' }}>
+            My Investments
+          </button>
+        </Link>
+
+        <Link href="/tokens">
+          <button className={styles.btnPrimary} style={{ marginTop: '10px' }}>
+            View My Tokens
+          </button>
+        </Link>
+
         {message && (
           <div className={`${styles.message} ${styles[messageType]}`}>
             {message}
@@ -0,0 +1,289 @@
+import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
+import styles from '../styles/Home.module.css'
+import { useWallet } from '../lib/wallet'
+import { AuthFetch } from '@bsv/sdk'
+import type { ClaimState } from '../lib/crowdfunding'
+
+interface TokenOutput {
+  txid: string
+  outputIndex: number
+  holderKey?: string
+}
+
+interface Investment {
+  campaign: {
+    id: string
+    title: string
+    status: string
+    goal: number
+    raised: number
+    isComplete: boolean
+  }
+  amount: number
+  share: number
+  tier?: string
+  claimState: ClaimState
+  token?: TokenOutput
+  refund?: { status: string, amount: number, txid?: string }
+  contributions: { amount: number, timestamp: number, txid?: string }[]
+}
+
+// Token another investor transferred to this identity
+interface ReceivedToken {
+  campaignId: string
+  campaignTitle: string
+  investorKey: string
+  amount: number
+  share: number
+  token: TokenOutput
+}
+
+interface Portfolio {
+  identityKey: string
+  totalInvested: number
+  investments: Investment[]
+  received: ReceivedToken[]
+}
+
+const CLAIM_STATE_LABELS: Record<ClaimState, string> = {
+  pending: 'Campaign still raising',
+  claimable: 'Token ready to claim',
+  claimed: 'Token claimed',
+  transferred: 'Token transferred away',
+  refundable: 'Campaign failed - refund available',
+  refunded: 'Refunded'
+}
+
+export default function MyInvestments() {
+  const { wallet, identityKey } = useWallet()
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null)
+  // Outpoints of the tokens in this wallet's crowdfunding basket
+  const [walletOutpoints, setWalletOutpoints] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  // The portfolio is mutually authenticated with the backend (BRC-103)
+  const authFetch = useMemo(() => wallet ? new AuthFetch(wallet) : null, [wallet])
+
+  useEffect(() => {
+    if (wallet && identityKey) {
+      loadPortfolio()
+    }
+  }, [wallet, identityKey])
+
+  async function loadPortfolio() {
+    if (!wallet || !authFetch) return
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const [response, outputs] = await Promise.all([
+        authFetch.fetch(`${window.location.origin}/api/me`),
+        wallet.listOutputs({ basket: 'crowdfunding' })
+      ])
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load investments')
+      }
+
+      setPortfolio(data)
+      setWalletOutpoints(new Set(outputs.outputs.map(output => output.outpoint)))
+    } catch (err: any) {
+      console.error('Error loading investments:', err)
+      setError('Error loading investments: ' + err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function formatTxid(txid: string) {
+    return `${txid.slice(0, 8)}...${txid.slice(-8)}`
+  }
+
+  function tokenField(token: TokenOutput) {
+    const outpoint = `${token.txid}.${token.outputIndex}`
+    return (
+      <div className={styles.tokenField}>
+        <span className={styles.fieldLabel}>Token:</span>
+        <span>
+          <a
+            href={`https://whatsonchain.com/tx/${token.txid}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ color: '#667eea', fontFamily: 'monospace', fontSize: '11px' }}
+          >
+            {formatTxid(token.txid)}
+          </a>
+          {' '}#{token.outputIndex}
+          {walletOutpoints.has(outpoint) ? (
+            <span style={{ color: '#065f46', fontWeight: 'bold' }}> ✓ In your wallet</span>
+          ) : (
+            <span style={{ color: '#92400e', fontSize: '12px' }}> Not in your wallet</span>
+          )}
+        </span>
+      </div>
+    )
+  }
+
+  // Tokens in the wallet that no server record points at, such as ones already transferred on
+  const recordedOutpoints = new Set([
+    ...(portfolio?.investments ?? []).flatMap(inv => inv.token ? [`${inv.token.txid}.${inv.token.outputIndex}`] : []),
+    ...(portfolio?.received ?? []).map(r => `${r.token.txid}.${r.token.outputIndex}`)
+  ])
+  const otherTokens = [...walletOutpoints].filter(outpoint => !recordedOutpoints.has(outpoint)).length
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.card}>
+        <div className={styles.header}>
+          <div>
+            <h1>My Investments</h1>
+            <p className={styles.subtitle}>Your contributions, shares and tokens</p>
+          </div>
+          <Link href="/" className={styles.backLink}>
+            ← Back
+          </Link>
+        </div>
+
+        {!wallet || !identityKey ? (
+          <div className={styles.statusCard}>
+            <p>{loading ? 'Connecting to wallet...' : 'Wallet not connected'}</p>
+          </div>
+        ) : loading ? (
+          <div className={styles.statusCard}>
+            <p>Loading investments...</p>
+          </div>
+        ) : error ? (
+          <div className={styles.statusCard} style={{ background: '#fef3c7', borderLeft: '4px solid #f59e0b' }}>
+            <p style={{ margin: 0, fontSize: '14px', color: '#92400e', fontWeight: 'bold' }}>{error}</p>
+          </div>
+        ) : portfolio ? (
+          <>
+            <div className={styles.statusCard}>
+              <div className={styles.stat}>
+                <span>Identity Key:</span>
+                <span className={styles.identityKey}>{formatTxid(portfolio.identityKey)}</span>
+              </div>
+              <div className={styles.stat}>
+                <span>Campaigns:</span>
+                <span>{portfolio.investments.length}</span>
+              </div>
+              <div className={styles.stat}>
+                <span>Total Invested:</span>
+                <span>{portfolio.totalInvested} sats</span>
+              </div>
+            </div>
+
+            {portfolio.investments.length === 0 ? (
+              <div className={styles.statusCard}>
+                <p>You have not invested in any campaign yet.</p>
+              </div>
+            ) : (
+              <div className={styles.investorList}>
+                <h3>Investments ({portfolio.investments.length})</h3>
+                {portfolio.investments.map(investment => (
+                  <div key={investment.campaign.id} className={styles.tokenItem}>
+                    <div className={styles.tokenHeader}>
+                      <Link href={`/campaigns/${investment.campaign.id}`} className={styles.tokenLabel}>
+                        {investment.campaign.title}
+                      </Link>
+                      <span className={styles.tokenSats}>{investment.amount} sats</span>
+                    </div>
+                    <div className={styles.tokenDetails}>
+                      <div className={styles.tokenField}>
+                        <span className={styles.fieldLabel}>Share:</span>
+                        <span>
+                          {(investment.share * 100).toFixed(2)}% of {investment.campaign.raised} sats raised
+                        </span>
+                      </div>
+                      {investment.tier && (
+                        <div className={styles.tokenField}>
+                          <span className={styles.fieldLabel}>Tier:</span>
+                          <span>{investment.tier}</span>
+                        </div>
+                      )}
+                      <div className={styles.tokenField}>
+                        <span className={styles.fieldLabel}>Status:</span>
+                        <span>{CLAIM_STATE_LABELS[investment.claimState]}</span>
+                      </div>
+                      {investment.token && !investment.token.holderKey && tokenField(investment.token)}
+                      {investment.refund?.txid && (
+                        <div className={styles.tokenField}>
+                          <span className={styles.fieldLabel}>Refund:</span>
+                          <span style={{ fontFamily: 'monospace', fontSize: '11px' }}>
+                            {investment.refund.amount} sats, {formatTxid(investment.refund.txid)}
+                          </span>
+                        </div>
+                      )}
+                      {investment.contributions.map((contribution, idx) => (
+                        <div key={contribution.txid ?? idx} className={styles.tokenField}>
+                          <span className={styles.fieldLabel}>Payment:</span>
+                          <span>
+                            {contribution.amount} sats on {new Date(contribution.timestamp).toLocaleString()}
+                            {contribution.txid && (
+                              <span style={{ fontFamily: 'monospace', fontSize: '11px' }}> {formatTxid(contribution.txid)}</span>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {portfolio.received.length > 0 && (
+              <div className={styles.investorList}>
+                <h3>Tokens Received ({portfolio.received.length})</h3>
+                {portfolio.received.map(received => (
+                  <div key={`${received.token.txid}.${received.token.outputIndex}`} className={styles.tokenItem}>
+                    <div className={styles.tokenHeader}>
+                      <Link href={`/campaigns/${received.campaignId}`} className={styles.tokenLabel}>
+                        {received.campaignTitle}
+                      </Link>
+                      <span className={styles.tokenSats}>{received.amount} sats</span>
+                    </div>
+                    <div className={styles.tokenDetails}>
+                      <div className={styles.tokenField}>
+                        <span className={styles.fieldLabel}>Share:</span>
+                        <span>{(received.share * 100).toFixed(2)}% of total raise</span>
+                      </div>
+                      <div className={styles.tokenField}>
+                        <span className={styles.fieldLabel}>Investor:</span>
+                        <span style={{ fontFamily: 'monospace', fontSize: '11px' }}>{formatTxid(received.investorKey)}</span>
+                      </div>
+                      {tokenField(received.token)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {otherTokens > 0 && (
+              <div className={styles.statusCard}>
+                <p>{otherTokens} other token{otherTokens === 1 ? '' : 's'} in your wallet. See My Tokens for details.</p>
+              </div>
+            )}
+
+            <button
+              className={styles.btnPrimary}
+              onClick={loadPortfolio}
+              disabled={loading}
+            >
+              {loading ? 'Refreshing...' : 'Refresh'}
+            </button>
+          </>
+        ) : null}
+
+        <Link href="/tokens">
+          <button className={styles.btnPrimary} style={{ marginTop: '10px' }}>
+            View My Tokens
+          </button>
+        </Link>
+      </div>
+    </div>
+  )
+}
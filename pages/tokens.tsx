@@ -1,16 +1,43 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import Link from 'next/link'
 import styles from '../styles/Home.module.css'
 import { useWallet } from '../lib/wallet'
-import { PushDrop, LockingScript } from '@bsv/sdk'
+import { AuthFetch, LockingScript, Transaction, Utils } from '@bsv/sdk'
+import {
+  createTokenLockingScript,
+  decodeToken,
+  decryptTokenPayload,
+  tokenCustomInstructions,
+  tokenUnlocker,
+  DecodedToken,
+  TokenPayload,
+  TOKEN_PROTOCOL_ID,
+  TOKEN_KEY_ID,
+  TOKEN_UNLOCKING_SCRIPT_LENGTH
+} from '../lib/token'
+import type { TokenVerification } from '../lib/verification'
 
 interface WalletToken {
   txid: string
   vout: number
   satoshis: number
   lockingScript: string
-  decryptedData?: string
   outpoint: string
+  // Undefined for tokens issued before the token schema was versioned
+  decoded?: DecodedToken
+  payload?: TokenPayload
+  decryptError?: string
+}
+
+// Token transferred to this wallet, waiting in the backend inbox to be internalized
+interface IncomingTransfer {
+  campaignId: string
+  campaignTitle: string
+  fromKey: string
+  txid: string
+  outputIndex: number
+  tx: string
+  timestamp: number
 }
 
 interface TokensData {
@@ -21,32 +48,42 @@ interface TokensData {
 
 export default function Tokens() {
   const { wallet, identityKey } = useWallet()
-  const [completionTxid, setCompletionTxid] = useState<string | null>(null)
+  const [campaignTitles, setCampaignTitles] = useState<Record<string, string>>({})
   const [tokensData, setTokensData] = useState<TokensData | null>(null)
+  const [incoming, setIncoming] = useState<IncomingTransfer[]>([])
+  const [recipients, setRecipients] = useState<Record<string, string>>({})
+  const [verifications, setVerifications] = useState<Record<string, TokenVerification>>({})
   const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
   const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [messageType, setMessageType] = useState('')
+
+  // Transfers and the inbox are mutually authenticated with the backend (BRC-103)
+  const authFetch = useMemo(() => wallet ? new AuthFetch(wallet) : null, [wallet])
 
   useEffect(() => {
-    loadCampaignStatus()
+    loadCampaigns()
   }, [])
 
   useEffect(() => {
     if (wallet && identityKey) {
       loadTokens()
+      loadInbox()
     }
-  }, [wallet, identityKey, completionTxid])
+  }, [wallet, identityKey])
 
-  async function loadCampaignStatus() {
+  async function loadCampaigns() {
     try {
-      const response = await fetch('/api/status')
+      const response = await fetch('/api/campaigns')
       if (response.ok) {
         const data = await response.json()
-        if (data.completionTxid) {
-          setCompletionTxid(data.completionTxid)
-        }
+        setCampaignTitles(Object.fromEntries(
+          data.campaigns.map((campaign: any) => [campaign.id, campaign.title])
+        ))
       }
     } catch (err) {
-      console.error('Error loading campaign status:', err)
+      console.error('Error loading campaigns:', err)
     }
   }
 
@@ -72,30 +109,33 @@ export default function Tokens() {
         try {
           if (!output.lockingScript) continue
 
-          const script = LockingScript.fromHex(output.lockingScript)
-          const decodedToken = PushDrop.decode(script)
+          const decoded = decodeToken(LockingScript.fromHex(output.lockingScript))
 
-          let decryptedData = ''
-          if (decodedToken.fields && decodedToken.fields.length > 0) {
-            // Skip decryption for now - tokens contain encrypted data
-            // that requires matching encryption parameters
-            decryptedData = `Token data (${decodedToken.fields[0].length} bytes)`
+          let payload: TokenPayload | undefined
+          let decryptError: string | undefined
+          if (decoded) {
+            try {
+              payload = await decryptTokenPayload(wallet, decoded)
+            } catch (err: any) {
+              console.error('Error decrypting token:', err)
+              decryptError = err.message || 'Unable to decrypt token'
+            }
           }
 
-          const txid = output.outpoint.split('.')[0]
-
-          if (completionTxid && txid !== completionTxid) continue
+          const [txid, vout] = output.outpoint.split('.')
 
           tokens.push({
             txid,
-            vout: parseInt(output.outpoint.split('.')[1]),
+            vout: parseInt(vout),
             satoshis: output.satoshis,
             lockingScript: output.lockingScript,
-            decryptedData,
-            outpoint: output.outpoint
+            outpoint: output.outpoint,
+            decoded,
+            payload,
+            decryptError
           })
         } catch {
-          // Skip non-PushDrop outputs
+          // Skip outputs with unreadable locking scripts
         }
       }
 
@@ -107,6 +147,8 @@ export default function Tokens() {
 
       if (tokens.length === 0) {
         setError('No tokens found. Complete a crowdfunding campaign to receive tokens.')
+      } else {
+        verifyTokens(tokens)
       }
     } catch (err: any) {
       console.error('Error loading tokens:', err)
@@ -116,6 +158,190 @@ export default function Tokens() {
     }
   }
 
+  // Checks each token against the backend's public verification endpoint, the same way
+  // a third party would, using the BEEF the wallet holds for it
+  async function verifyTokens(tokens: WalletToken[]) {
+    if (!wallet) return
+
+    try {
+      const { BEEF } = await wallet.listOutputs({
+        basket: 'crowdfunding',
+        include: 'entire transactions'
+      })
+      if (!BEEF) return
+
+      const results = await Promise.all(tokens.filter(token => token.decoded).map(async token => {
+        const response = await fetch('/api/tokens/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ outpoint: token.outpoint, beef: Utils.toBase64(BEEF) })
+        })
+        return response.ok ? [token.outpoint, await response.json()] : undefined
+      }))
+
+      setVerifications(Object.fromEntries(results.filter(result => result !== undefined)))
+    } catch (err) {
+      console.error('Error verifying tokens:', err)
+    }
+  }
+
+  async function loadInbox() {
+    if (!authFetch) return
+
+    try {
+      const response = await authFetch.fetch(`${window.location.origin}/api/tokens/inbox`)
+      const data = await response.json()
+      if (response.ok) {
+        setIncoming(data.transfers)
+      }
+    } catch (err) {
+      console.error('Error loading token inbox:', err)
+    }
+  }
+
+  async function transferToken(token: WalletToken) {
+    const recipientKey = recipients[token.outpoint]?.trim()
+
+    if (!wallet || !authFetch || !token.decoded || !token.payload) return
+
+    if (!recipientKey) {
+      showMessage('Enter the recipient identity key', 'error')
+      return
+    }
+
+    setBusy(true)
+
+    try {
+      showMessage('Creating transfer transaction...', 'info')
+
+      // Re-lock the same payload to the recipient, with this wallet as the locker
+      const lockingScript = LockingScript.fromHex(token.lockingScript)
+      const recipientLockingScript = await createTokenLockingScript(wallet, recipientKey, token.payload)
+
+      const { BEEF } = await wallet.listOutputs({
+        basket: 'crowdfunding',
+        include: 'entire transactions'
+      })
+
+      const { signableTransaction } = await wallet.createAction({
+        description: 'Transfer crowdfunding token',
+        inputBEEF: BEEF,
+        inputs: [{
+          outpoint: token.outpoint,
+          unlockingScriptLength: TOKEN_UNLOCKING_SCRIPT_LENGTH,
+          inputDescription: 'Crowdfunding token'
+        }],
+        outputs: [{
+          lockingScript: recipientLockingScript.toHex(),
+          satoshis: token.satoshis,
+          outputDescription: 'Transferred crowdfunding token'
+        }],
+        options: { randomizeOutputs: false }
+      })
+
+      if (!signableTransaction) {
+        throw new Error('Transaction creation failed')
+      }
+
+      const unlockingScript = await tokenUnlocker(wallet, token.decoded, lockingScript, token.satoshis)
+        .sign(Transaction.fromAtomicBEEF(signableTransaction.tx), 0)
+
+      const { tx } = await wallet.signAction({
+        reference: signableTransaction.reference,
+        spends: { 0: { unlockingScript: unlockingScript.toHex() } }
+      })
+
+      if (!tx) {
+        throw new Error('Transaction signing failed')
+      }
+
+      showMessage('Notifying backend of the transfer...', 'info')
+
+      // Reveal the key linkage with the recipient to the backend, so it can check the new lock
+      const { identityKey: backendKey } = await (await fetch('/api/wallet-info')).json()
+      const { encryptedLinkage } = await wallet.revealSpecificKeyLinkage({
+        counterparty: recipientKey,
+        verifier: backendKey,
+        protocolID: TOKEN_PROTOCOL_ID,
+        keyID: TOKEN_KEY_ID
+      })
+
+      const response = await authFetch.fetch(`${window.location.origin}/api/campaigns/${token.decoded.campaignId}/transfer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tx: Utils.toBase64(tx),
+          outputIndex: 0,
+          recipientKey,
+          outpoint: token.outpoint,
+          linkage: Utils.toBase64(encryptedLinkage)
+        })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        showMessage(`Token transferred! TXID: ${data.txid}`, 'success')
+        await loadTokens()
+      } else {
+        showMessage(data.error || 'Transfer failed', 'error')
+      }
+    } catch (err: any) {
+      console.error('Transfer error:', err)
+      showMessage('Error: ' + err.message, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function acceptTransfer(transfer: IncomingTransfer) {
+    if (!wallet || !authFetch) return
+
+    setBusy(true)
+
+    try {
+      await wallet.internalizeAction({
+        tx: Utils.toArray(transfer.tx, 'base64'),
+        outputs: [
+          {
+            outputIndex: transfer.outputIndex,
+            protocol: 'basket insertion',
+            insertionRemittance: {
+              basket: 'crowdfunding',
+              customInstructions: tokenCustomInstructions(transfer.fromKey)
+            }
+          }
+        ],
+        description: 'Receive crowdfunding token'
+      })
+
+      const response = await authFetch.fetch(`${window.location.origin}/api/tokens/inbox`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ campaignId: transfer.campaignId, txid: transfer.txid })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to acknowledge transfer')
+      }
+
+      showMessage('Token received!', 'success')
+      await Promise.all([loadTokens(), loadInbox()])
+    } catch (err: any) {
+      console.error('Receive error:', err)
+      showMessage('Error: ' + err.message, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function showMessage(text: string, type: string) {
+    setMessage(text)
+    setMessageType(type)
+    setTimeout(() => setMessage(''), 5000)
+  }
+
   function formatTxid(txid: string) {
     return `${txid.slice(0, 8)}...${txid.slice(-8)}`
   }
@@ -135,6 +361,27 @@ export default function Tokens() {
           </Link>
         </div>
 
+        {incoming.length > 0 && (
+          <div className={styles.investorList}>
+            <h3>Incoming Tokens ({incoming.length})</h3>
+            {incoming.map(transfer => (
+              <div key={transfer.txid} className={styles.investorItem}>
+                <span>
+                  {transfer.campaignTitle} from{' '}
+                  <span className={styles.investorKey}>{formatTxid(transfer.fromKey)}</span>
+                </span>
+                <button
+                  className={styles.btnSuccess}
+                  onClick={() => acceptTransfer(transfer)}
+                  disabled={busy}
+                >
+                  Accept
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {!isWalletConnected ? (
           <div className={styles.statusCard}>
             <p>{loading ? 'Connecting to wallet...' : 'Wallet not connected'}</p>
@@ -198,11 +445,101 @@ export default function Tokens() {
                         <span className={styles.fieldLabel}>Output:</span>
                         <span>#{token.vout}</span>
                       </div>
-                      {token.decryptedData && (
-                        <div className={styles.tokenField} style={{ flexDirection: 'column', alignItems: 'flex-start' }}>
+                      {token.decoded ? (
+                        <>
+                          <div className={styles.tokenField}>
+                            <span className={styles.fieldLabel}>Campaign:</span>
+                            <span>
+                              {campaignTitles[token.decoded.campaignId] ?? token.decoded.campaignId}
+                            </span>
+                          </div>
+                          {verifications[token.outpoint] && (
+                            <div className={styles.tokenField}>
+                              <span className={styles.fieldLabel}>Verification:</span>
+                              {verifications[token.outpoint].verified ? (
+                                <span style={{ color: '#065f46', fontWeight: 'bold' }}>
+                                  ✓ Verified ({verifications[token.outpoint].status})
+                                </span>
+                              ) : (
+                                <span style={{ color: '#991b1b', fontSize: '12px' }}>
+                                  Not verified: {verifications[token.outpoint].reason}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                          <div className={styles.tokenField}>
+                            <span className={styles.fieldLabel}>Schema:</span>
+                            <span>v{token.decoded.version}</span>
+                          </div>
+                          <div className={styles.tokenField}>
+                            <span className={styles.fieldLabel}>Issuer:</span>
+                            <span style={{ fontFamily: 'monospace', fontSize: '11px' }}>
+                              {formatTxid(token.decoded.issuerKey)}
+                            </span>
+                          </div>
+                          {token.decoded.lockerKey !== token.decoded.issuerKey && (
+                            <div className={styles.tokenField}>
+                              <span className={styles.fieldLabel}>Received from:</span>
+                              <span style={{ fontFamily: 'monospace', fontSize: '11px' }}>
+                                {formatTxid(token.decoded.lockerKey)}
+                              </span>
+                            </div>
+                          )}
+                          {token.payload ? (
+                            <>
+                              <div className={styles.tokenField}>
+                                <span className={styles.fieldLabel}>Invested:</span>
+                                <span>{token.payload.amount} sats</span>
+                              </div>
+                              {token.payload.tier && (
+                                <div className={styles.tokenField}>
+                                  <span className={styles.fieldLabel}>Tier:</span>
+                                  <span>
+                                    {token.payload.tier.name}{token.payload.tier.perk ? ` - ${token.payload.tier.perk}` : ''}
+                                  </span>
+                                </div>
+                              )}
+                              <div className={styles.tokenField}>
+                                <span className={styles.fieldLabel}>Share:</span>
+                                <span>{(token.payload.share * 100).toFixed(2)}% of total raise</span>
+                              </div>
+                              <div className={styles.tokenField}>
+                                <span className={styles.fieldLabel}>Issued:</span>
+                                <span>{new Date(token.payload.issuedAt).toLocaleString()}</span>
+                              </div>
+                              <div className={styles.inputGroup}>
+                                <label htmlFor={`recipient-${idx}`}>Transfer to (identity key)</label>
+                                <input
+                                  type="text"
+                                  id={`recipient-${idx}`}
+                                  value={recipients[token.outpoint] ?? ''}
+                                  onChange={(e) => setRecipients({ ...recipients, [token.outpoint]: e.target.value })}
+                                  placeholder="02..."
+                                  disabled={busy}
+                                />
+                              </div>
+                              <button
+                                className={styles.btnPrimary}
+                                onClick={() => transferToken(token)}
+                                disabled={busy}
+                              >
+                                {busy ? 'Processing...' : 'Transfer Token'}
+                              </button>
+                            </>
+                          ) : (
+                            <div className={styles.tokenField}>
+                              <span className={styles.fieldLabel}>Data:</span>
+                              <span style={{ color: '#991b1b', fontSize: '12px' }}>
+                                Could not decrypt: {token.decryptError}
+                              </span>
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <div className={styles.tokenField}>
                           <span className={styles.fieldLabel}>Data:</span>
-                          <span style={{ fontFamily: 'monospace', fontSize: '12px', color: '#065f46', marginTop: '4px' }}>
-                            {token.decryptedData}
+                          <span style={{ fontFamily: 'monospace', fontSize: '12px', color: '#065f46' }}>
+                            Legacy token (unversioned)
                           </span>
                         </div>
                       )}
@@ -225,6 +562,12 @@ export default function Tokens() {
             </button>
           </>
         ) : null}
+
+        {message && (
+          <div className={`${styles.message} ${styles[messageType]}`}>
+            {message}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,78 @@
+import { config } from 'dotenv'
+import { Campaign } from './types'
+import { LogEvent } from '../lib/eventLog'
+import { readDataFile, DEFAULT_DATA_FILE } from '../lib/storage/jsonStore'
+import { SqliteCampaignStore, DEFAULT_DATABASE_FILE } from '../lib/storage/sqliteStore'
+
+config() // Load .env file
+
+async function importCampaigns(store: SqliteCampaignStore, campaigns: Campaign[], allEvents: LogEvent[]) {
+  for (const campaign of campaigns) {
+    if (await store.getCampaign(campaign.id)) {
+      console.log(`Skipping campaign ${campaign.id} (already in database)`)
+      continue
+    }
+    const events = allEvents
+      .filter(event => event.campaignId === campaign.id)
+      .map(({ sequence, ...event }) => event)
+    await store.saveCampaign(campaign, events)
+    console.log(`Imported campaign ${campaign.id}: ${campaign.investors.length} investors, ${campaign.raised} sats raised`)
+  }
+}
+
+// One-shot import of an existing crowdfunding-data.json, with its event log, into the
+// SQLite store. Campaigns already present in the database are left untouched, so it is
+// safe to re-run. Imported events are numbered after those already in the database.
+// Campaigns archived by key rotations are imported under the identity that ran them.
+async function migrate() {
+  const dataFile = process.argv[2] || process.env.CROWDFUNDING_DATA_FILE || DEFAULT_DATA_FILE
+  const databaseFile = process.argv[3] || process.env.CROWDFUNDING_DATABASE || DEFAULT_DATABASE_FILE
+
+  const stored = readDataFile(dataFile)
+  if (!stored) {
+    throw new Error(`No crowdfunding data found at ${dataFile}`)
+  }
+
+  console.log(`Importing ${dataFile} into ${databaseFile}`)
+  console.log(`Wallet identity: ${stored.walletIdentity}`)
+
+  for (const archive of stored.archives ?? []) {
+    console.log(`\nArchive of ${archive.walletIdentity}, rotated to ${archive.rotatedTo}:`)
+    const store = await SqliteCampaignStore.open(archive.walletIdentity, databaseFile)
+    try {
+      await importCampaigns(store, archive.campaigns, archive.events)
+    } finally {
+      await store.close()
+    }
+
+    const rotatedStore = await SqliteCampaignStore.open(archive.rotatedTo, databaseFile)
+    try {
+      const rotations = await rotatedStore.listKeyRotations()
+      if (!rotations.some(rotation => rotation.previousIdentity === archive.walletIdentity)) {
+        // Carried over campaigns are imported with the identity that runs them now
+        await rotatedStore.rotateKey({
+          previousIdentity: archive.walletIdentity,
+          identity: archive.rotatedTo,
+          timestamp: archive.rotatedAt
+        }, [])
+      }
+    } finally {
+      await rotatedStore.close()
+    }
+  }
+
+  if (stored.archives?.length) console.log(`\nCampaigns of ${stored.walletIdentity}:`)
+  const store = await SqliteCampaignStore.open(stored.walletIdentity, databaseFile)
+  try {
+    await importCampaigns(store, stored.campaigns ?? [], stored.events ?? [])
+  } finally {
+    await store.close()
+  }
+
+  console.log('\nMigration complete. Set CROWDFUNDING_STORAGE=sqlite to use the database.')
+}
+
+migrate().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,108 @@
+import { openPriorWallet, wallet } from './wallet'
+import { addCampaign, getStore, listCampaigns, updateCampaign } from '../lib/storage'
+import {
+  addPriorIssuerHistory,
+  Discrepancy,
+  findDiscrepancies,
+  identifyHolders,
+  rebuildCampaign,
+  walletCampaignIds
+} from '../lib/reconcile'
+import { readWalletHistory } from '../lib/walletHistory'
+
+function describe(d: Discrepancy): string {
+  const investor = (key?: string) => key ? `${key.slice(0, 16)}...` : 'unknown investor'
+  switch (d.type) {
+    case 'missing-payment':
+      return `Payment ${d.txid} of ${d.amount} sats from ${investor(d.identityKey)} is not stored` +
+        (d.campaignId ? ` in campaign ${d.campaignId}` : ' (unlabelled)')
+    case 'phantom-contribution':
+      return `Contribution ${d.txid} of ${d.amount} sats by ${investor(d.identityKey)} has no payment in the wallet`
+    case 'amount-mismatch':
+      return `Contribution ${d.txid} by ${investor(d.identityKey)} is stored as ${d.stored} sats but paid ${d.paid} sats`
+    case 'unredeemed-token':
+      return `Token ${d.txid}.${d.outputIndex} was minted for ${investor(d.identityKey)}, who is not marked redeemed`
+    case 'missing-token':
+      return `${investor(d.identityKey)} is marked redeemed but no token was minted for them`
+    case 'unknown-token':
+      return `Token ${d.txid}.${d.outputIndex} is locked to an identity that is not an investor`
+  }
+}
+
+// Checks the stored campaigns against the backend wallet's history of investment
+// payments and minted tokens. With --rebuild, campaigns with discrepancies are
+// rebuilt from the wallet history, and campaigns missing from the store recovered.
+async function reconcile() {
+  const rebuild = process.argv.includes('--rebuild')
+
+  console.log('Reading backend wallet history...')
+  const history = await readWalletHistory(wallet)
+  const campaigns = await listCampaigns()
+  await identifyHolders(wallet, history, campaigns)
+  const unchecked = await addPriorIssuerHistory(history, campaigns, openPriorWallet)
+  console.log(`${history.payments.length} payments and ${history.tokens.length} minted tokens found`)
+
+  for (const campaignId of unchecked) {
+    console.log(`Campaign ${campaignId} ran under a prior backend key missing from PREVIOUS_PRIVATE_KEYS - not checked`)
+  }
+  const discrepancies = findDiscrepancies(campaigns, history)
+    .filter(d => d.campaignId === undefined || !unchecked.includes(d.campaignId))
+  const stored = new Set(campaigns.map(campaign => campaign.id))
+  const campaignIds = [...new Set([...stored, ...walletCampaignIds(history)])]
+
+  for (const campaignId of campaignIds) {
+    const found = discrepancies.filter(d => d.campaignId === campaignId)
+    if (found.length === 0) continue
+    console.log(`\nCampaign ${campaignId}${stored.has(campaignId) ? '' : ' (not stored)'}:`)
+    for (const discrepancy of found) {
+      console.log(`  - ${describe(discrepancy)}`)
+    }
+  }
+
+  const unlabelled = discrepancies.filter(d => d.campaignId === undefined)
+  if (unlabelled.length > 0) {
+    console.log('\nPayments without a campaign:')
+    for (const discrepancy of unlabelled) {
+      console.log(`  - ${describe(discrepancy)}`)
+    }
+  }
+
+  if (discrepancies.length === 0) {
+    console.log('\nStored campaigns match the wallet history.')
+    return
+  }
+  console.log(`\n${discrepancies.length} discrepancies found.`)
+
+  if (!rebuild) {
+    console.log('Run with --rebuild to rebuild the affected campaigns from the wallet history.')
+    return
+  }
+
+  for (const campaignId of campaignIds) {
+    if (!discrepancies.some(d => d.campaignId === campaignId)) continue
+    if (stored.has(campaignId)) {
+      await updateCampaign(campaignId, (campaign, record) => {
+        const error = record({ type: 'rebuilt', campaign: rebuildCampaign(campaign, campaignId, history) })
+        if (error) throw new Error(error)
+      })
+      console.log(`Rebuilt campaign ${campaignId}`)
+    } else {
+      await addCampaign(rebuildCampaign(undefined, campaignId, history))
+      console.log(`Recovered campaign ${campaignId} (paused for review)`)
+    }
+  }
+  if (unlabelled.length > 0) {
+    console.log('Payments without a campaign were left out of the rebuild.')
+  }
+}
+
+reconcile()
+  .then(async () => {
+    await (await getStore()).close()
+    // Pending webhook retries would keep the process alive
+    process.exit(0)
+  })
+  .catch(error => {
+    console.error(error)
+    process.exit(1)
+  })
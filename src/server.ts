@@ -0,0 +1,127 @@
+import express, { Express, NextFunction, Request, Response } from 'express'
+import { pathToFileURL } from 'url'
+import type { NextApiResponse } from 'next'
+import { getAuthMiddleware, PaymentRequest } from '../lib/middleware'
+import walletInfo from '../pages/api/wallet-info'
+import me from '../pages/api/me'
+import eventLog from '../pages/api/events'
+import listCampaigns from '../pages/api/campaigns/index'
+import campaignStatus from '../pages/api/campaigns/[id]/status'
+import campaignEvents from '../pages/api/campaigns/[id]/events'
+import invest from '../pages/api/campaigns/[id]/invest'
+import complete from '../pages/api/campaigns/[id]/complete'
+import refund from '../pages/api/campaigns/[id]/refund'
+import distribute from '../pages/api/campaigns/[id]/distribute'
+import transfer from '../pages/api/campaigns/[id]/transfer'
+import investor from '../pages/api/campaigns/[id]/investors/[identityKey]'
+import tokenInbox from '../pages/api/tokens/inbox'
+import verifyToken from '../pages/api/tokens/verify'
+import overlaySubmit from '../pages/api/overlay/submit'
+import overlayLookup from '../pages/api/overlay/lookup'
+import createCampaign from '../pages/api/admin/campaigns/index'
+import editCampaign from '../pages/api/admin/campaigns/[id]/index'
+import setCampaignStatus from '../pages/api/admin/campaigns/[id]/status'
+import exportCampaign from '../pages/api/admin/campaigns/[id]/export'
+import webhooks from '../pages/api/admin/webhooks/index'
+import deleteWebhook from '../pages/api/admin/webhooks/[id]/index'
+import webhookDeliveries from '../pages/api/admin/webhooks/[id]/deliveries'
+
+// Standalone API server for deployments without Next.js. It serves the same route
+// handlers as the Next.js API routes, with the auth middleware mounted natively.
+const port = Number(process.env.PORT) || 3001
+
+type ApiHandler = (req: PaymentRequest, res: NextApiResponse) => Promise<unknown> | unknown
+
+// Runs a Next.js API route handler on an Express request. Next.js passes dynamic
+// route segments in req.query, so the path parameters are merged into it.
+function route(handler: ApiHandler) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    Object.defineProperty(req, 'query', {
+      value: { ...req.query, ...req.params },
+      configurable: true
+    })
+    try {
+      await handler(req as unknown as PaymentRequest, res as unknown as NextApiResponse)
+    } catch (error) {
+      next(error)
+    }
+  }
+}
+
+// The app without a listening socket, so tests can serve it on a port of their own
+export async function createApp(): Promise<Express> {
+  const app = express()
+  app.use(express.json({ limit: '10mb' }))
+
+  // Browser clients on other origins read the BRC-103 and payment headers
+  app.use((req, res, next) => {
+    res.header('Access-Control-Allow-Origin', '*')
+    res.header('Access-Control-Allow-Headers', '*')
+    res.header('Access-Control-Allow-Methods', '*')
+    res.header('Access-Control-Expose-Headers', '*')
+    res.header('Access-Control-Allow-Private-Network', 'true')
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(200)
+    } else {
+      next()
+    }
+  })
+
+  // Public routes
+  app.get('/api/wallet-info', route(walletInfo))
+  app.get('/api/campaigns', route(listCampaigns))
+  app.get('/api/campaigns/:id/status', route(campaignStatus))
+  app.get('/api/campaigns/:id/events', route(campaignEvents))
+  app.get('/api/events', route(eventLog))
+  app.post('/api/campaigns/:id/refund', route(refund))
+  app.post('/api/tokens/verify', route(verifyToken))
+  app.post('/api/overlay/submit', route(overlaySubmit))
+  app.post('/api/overlay/lookup', route(overlayLookup))
+
+  // Everything below is mutually authenticated, including the /.well-known/auth handshake
+  app.use(await getAuthMiddleware())
+
+  // The invest handler runs the payment middleware itself, once it has validated the
+  // investment, so that invalid investments are rejected before a payment is requested
+  app.post('/api/campaigns/:id/invest', route(invest))
+  app.post('/api/campaigns/:id/complete', route(complete))
+  app.post('/api/campaigns/:id/distribute', route(distribute))
+  app.post('/api/campaigns/:id/transfer', route(transfer))
+  app.get('/api/campaigns/:id/investors/:identityKey', route(investor))
+  app.get('/api/tokens/inbox', route(tokenInbox))
+  app.post('/api/tokens/inbox', route(tokenInbox))
+  app.get('/api/me', route(me))
+
+  // Operator routes check the authenticated identity against OPERATOR_KEYS
+  app.post('/api/admin/campaigns', route(createCampaign))
+  app.patch('/api/admin/campaigns/:id', route(editCampaign))
+  app.post('/api/admin/campaigns/:id/status', route(setCampaignStatus))
+  app.get('/api/admin/campaigns/:id/export', route(exportCampaign))
+  app.get('/api/admin/webhooks', route(webhooks))
+  app.post('/api/admin/webhooks', route(webhooks))
+  app.delete('/api/admin/webhooks/:id', route(deleteWebhook))
+  app.get('/api/admin/webhooks/:id/deliveries', route(webhookDeliveries))
+
+  app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+    console.error('Server error:', error)
+    if (res.headersSent) return next(error)
+    res.status(500).json({ error: error.message || 'Internal server error' })
+  })
+
+  return app
+}
+
+async function start() {
+  const app = await createApp()
+  app.listen(port, () => {
+    console.log(`✓ Crowdfunding API listening on http://localhost:${port}`)
+  })
+}
+
+// Started by npm run server, not when imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  start().catch(error => {
+    console.error(error)
+    process.exit(1)
+  })
+}
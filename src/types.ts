@@ -1,14 +1,113 @@
+export type RefundStatus = 'pending' | 'sent' | 'failed'
+
+export interface Refund {
+  status: RefundStatus
+  amount: number
+  txid?: string
+  // AtomicBEEF of the refund transaction, base64 encoded, for the investor to internalize
+  tx?: string
+  derivationPrefix?: string
+  derivationSuffix?: string
+  error?: string
+  timestamp: number
+}
+
+// One accepted payment. Contributions migrated from data written before the
+// ledger existed only have an amount and timestamp.
+export interface Contribution {
+  amount: number
+  timestamp: number
+  txid?: string
+  derivationPrefix?: string
+  derivationSuffix?: string
+  // Part of the payment above the funding cap or the investor's maximum, paid back
+  // to the investor. amount above is what was credited to the campaign.
+  excessRefund?: Refund
+}
+
+// Current output of an investor's token: where it was minted (their own claim or a
+// batch distribution), or where it was last transferred
+export interface TokenOutput {
+  txid: string
+  outputIndex: number
+  // Identity now holding the token, when it has been transferred away from the investor
+  holderKey?: string
+}
+
+// Transfer of an investor's token between identities, relayed to the recipient
+export interface TokenTransfer {
+  // Investor whose stake the token represents
+  investorKey: string
+  fromKey: string
+  toKey: string
+  // Token output spent by the transfer, as "txid.vout"
+  spentOutpoint: string
+  txid: string
+  outputIndex: number
+  // AtomicBEEF of the transfer transaction, base64 encoded, for the recipient to internalize
+  tx: string
+  timestamp: number
+  // Set once the recipient confirms the token is in their wallet
+  acknowledged?: boolean
+}
+
+// Reward for investing at least minAmount, minted into the investor's token
+export interface RewardTier {
+  // Unique within the campaign
+  name: string
+  minAmount: number
+  perk: string
+  // How many investors can get the tier. Unlimited when unset.
+  quantity?: number
+}
+
 export interface Investor {
   identityKey: string
   amount: number
   timestamp: number
+  contributions: Contribution[]
+  // Name of the reward tier reserved for the investor
+  tier?: string
+  // True once a token has been minted for the investor
   redeemed?: boolean
+  token?: TokenOutput
+  refund?: Refund
 }
 
-export interface CrowdfundingState {
+// Single transaction minting a token output for every investor
+export interface TokenDistribution {
+  txid: string
+  // AtomicBEEF of the distribution transaction, base64 encoded, for investors to internalize
+  tx: string
+  timestamp: number
+}
+
+// 'paused' campaigns take no investments until an operator resumes them; 'closed'
+// campaigns were ended early by an operator after reaching their goal
+export type CampaignStatus = 'active' | 'paused' | 'closed' | 'failed'
+
+export interface Campaign {
+  id: string
+  title: string
+  description: string
   goal: number
   raised: number
   investors: Investor[]
+  status: CampaignStatus
+  // Unix time in milliseconds after which an underfunded campaign fails
+  deadline?: number
+  // Smallest single investment and most one investor can put in overall, in satoshis
+  minInvestment?: number
+  maxInvestment?: number
+  // Most the campaign raises in total, in satoshis. Unset means the goal is the cap.
+  hardCap?: number
+  tiers?: RewardTier[]
   isComplete: boolean
   completionTxid?: string
+  distribution?: TokenDistribution
+  transfers?: TokenTransfer[]
+  // Backend identities that ran the campaign before a key rotation, oldest first.
+  // Tokens minted before a rotation name one of them as their issuer.
+  priorIssuerKeys?: string[]
+  createdAt: number
 }
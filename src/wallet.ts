@@ -1,32 +1,114 @@
-import { PrivateKey, KeyDeriver, WalletInterface } from '@bsv/sdk'
-import { Wallet, WalletStorageManager, WalletSigner, Services, StorageClient, Chain } from '@bsv/wallet-toolbox'
+import { PrivateKey, ProtoWallet, WalletInterface } from '@bsv/sdk'
+import { Services, Chain } from '@bsv/wallet-toolbox'
 import { config } from 'dotenv'
+import { MockWallet, mockChainTracker, mockWalletKey } from '../lib/mockWallet'
+import { BackendWallet, createBackendWallet, syncWalletBackups, walletStorageKind } from '../lib/walletStorage'
 
 config() // Load .env file
 
 // Initialize wallet configuration
 const privateKeyHex = process.env.PRIVATE_KEY
-const storageUrl = process.env.STORAGE_URL || 'https://storage.babbage.systems'
-const network = (process.env.NETWORK || 'main') as Chain
+const network = process.env.NETWORK || 'main'
 
-if (!privateKeyHex) {
-  throw new Error('PRIVATE_KEY not found in .env. Run: npm run setup')
+// Local wallet backups are pushed to the storage server hourly
+const BACKUP_INTERVAL_MS = 60 * 60 * 1000
+
+// NETWORK=mock runs offline against an in-memory wallet. API routes may be bundled
+// separately, so the mock wallet is shared through globalThis like the campaign store,
+// as is a wallet on local storage, whose database and monitor must not be opened twice.
+const shared = globalThis as typeof globalThis & {
+  mockWallet?: MockWallet
+  localWallet?: Promise<BackendWallet>
+}
+
+async function startLocalWallet(privateKey: PrivateKey, chainServices: Services): Promise<BackendWallet> {
+  const backend = await createBackendWallet(privateKey, network as Chain, chainServices)
+
+  backend.monitor!.startTasks().catch(error => {
+    console.error('Wallet monitor stopped:', error)
+  })
+
+  const backUp = () => syncWalletBackups(backend.storageManager).catch(error => {
+    console.error('Wallet backup error:', error)
+  })
+  await backUp()
+  setInterval(backUp, BACKUP_INTERVAL_MS).unref()
+
+  return backend
 }
 
-// Initialize wallet from private key
-const privateKey = PrivateKey.fromHex(privateKeyHex)
-const keyDeriver = new KeyDeriver(privateKey)
-const storageManager = new WalletStorageManager(keyDeriver.identityKey)
-const signer = new WalletSigner(network, keyDeriver, storageManager)
-const services = new Services(network)
-const walletInstance = new Wallet(signer, services)
+let walletInstance: WalletInterface
+let services: Pick<Services, 'getChainTracker' | 'getUtxoStatus'>
+let identityKey: string
 
-// Setup storage
-const client = new StorageClient(walletInstance, storageUrl)
-await client.makeAvailable()
-await storageManager.addWalletStorageProvider(client)
+if (network === 'mock') {
+  const privateKey = privateKeyHex ? PrivateKey.fromHex(privateKeyHex) : mockWalletKey('backend')
+  walletInstance = shared.mockWallet ??= new MockWallet(privateKey)
+  services = {
+    getChainTracker: async () => mockChainTracker,
+    // Nothing is ever broadcast, so there is no chain to ask
+    getUtxoStatus: async () => ({ name: 'mock', status: 'error', details: [] })
+  }
+  identityKey = privateKey.toPublicKey().toString()
+  console.log('✓ Mock backend wallet initialized (in memory, offline)')
+} else {
+  if (!privateKeyHex) {
+    throw new Error('PRIVATE_KEY not found in .env. Run: npm run setup')
+  }
 
-console.log('✓ Backend wallet initialized')
-console.log(`✓ Identity: ${keyDeriver.identityKey}`)
+  // Initialize wallet from private key
+  const privateKey = PrivateKey.fromHex(privateKeyHex)
+  const chainServices = new Services(network as Chain)
+  const storageKind = walletStorageKind()
+  const { wallet: toolboxWallet } = storageKind === 'local'
+    ? await (shared.localWallet ??= startLocalWallet(privateKey, chainServices))
+    : await createBackendWallet(privateKey, network as Chain, chainServices)
+
+  walletInstance = toolboxWallet
+  services = chainServices
+  identityKey = privateKey.toPublicKey().toString()
+  console.log(`✓ Backend wallet initialized (${storageKind} storage)`)
+}
+
+console.log(`✓ Identity: ${identityKey}`)
 
 export const wallet: WalletInterface = walletInstance
+// Chain services of the backend wallet, for SPV checks and UTXO lookups
+export const walletServices = services
+
+// Keys the backend used before key rotations (PREVIOUS_PRIVATE_KEYS, comma-separated),
+// by identity key
+const priorKeys = new Map(
+  (process.env.PREVIOUS_PRIVATE_KEYS ?? '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean)
+    .map(key => {
+      const privateKey = PrivateKey.fromHex(key)
+      return [privateKey.toPublicKey().toString(), privateKey] as const
+    })
+)
+
+// Prior keys as they are used by the app: they only verify the tokens they issued,
+// and never spend
+export const priorIssuerWallets = new Map(
+  [...priorKeys].map(([identity, privateKey]) => [identity, new ProtoWallet(privateKey)] as const)
+)
+
+// Full wallet of a prior key, on the same storage as the current one, for reading the
+// history of the campaigns it ran. Undefined when the key is not in PREVIOUS_PRIVATE_KEYS.
+export async function openPriorWallet(identity: string): Promise<WalletInterface | undefined> {
+  const privateKey = priorKeys.get(identity)
+  if (!privateKey) return undefined
+  if (network === 'mock') return new MockWallet(privateKey)
+  const { wallet } = await createBackendWallet(privateKey, network as Chain, new Services(network as Chain))
+  return wallet
+}
+
+// Pushes a local wallet to its backup storage server now, rather than at the next
+// hourly sync, for scripts that exit right after changing the wallet
+export async function backUpWallet(): Promise<void> {
+  if (shared.localWallet) {
+    await syncWalletBackups((await shared.localWallet).storageManager)
+  }
+}
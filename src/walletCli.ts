@@ -0,0 +1,332 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { parseArgs } from 'util'
+import { P2PKH, PrivateKey, PublicKey, Random, Utils, WalletClient, WalletInterface, WalletProtocol } from '@bsv/sdk'
+import { config } from 'dotenv'
+import { DEFAULT_STORAGE_URL, DEFAULT_WALLET_DATABASE } from '../lib/walletStorage'
+import { EXPORT_FORMATS, ExportFormat, investorCsv, investorExport } from '../lib/export'
+
+config() // Load .env file
+
+// Backend wallet CLI. The backend wallet (src/wallet.ts) is only loaded by the commands
+// that use it, so init can run before .env holds a key.
+const ENV_FILE = '.env'
+const NETWORKS = ['main', 'test']
+const brc29ProtocolID: WalletProtocol = [2, '3241645161d8']
+const PAGE_SIZE = 1000
+
+const USAGE = `Usage: npm run wallet -- <command> [options]
+
+Commands:
+  init [--network main|test] [--storage remote|local] [--storage-url <url>] [--database <file>] [--self-hosted]
+                                Create the backend wallet key and storage settings in .env
+  fund <satoshis>               Send satoshis from your local wallet to the backend wallet
+  balance                       Show the backend wallet's spendable balance
+  list-outputs [--basket <name>]
+                                List the backend wallet's outputs (default basket: default)
+  withdraw <satoshis>           Send satoshis from the backend wallet back to your local wallet
+  rotate-key                    Replace the backend key, archiving settled campaigns under the old one
+  export-campaign <id> [--format csv|json] [--output <file>]
+                                Write a campaign's investors to a file`
+
+interface Remittance {
+  derivationPrefix: string
+  derivationSuffix: string
+}
+
+// Sets values in .env, keeping its other lines. Undefined values are removed.
+function updateEnvFile(values: Record<string, string | undefined>) {
+  const lines = existsSync(ENV_FILE) ? readFileSync(ENV_FILE, 'utf8').split('\n') : []
+  const written = new Set<string>()
+
+  const updated = lines.flatMap(line => {
+    const key = line.match(/^\s*([\w.]+)\s*=/)?.[1]
+    if (!key || !(key in values)) return [line]
+    if (written.has(key) || values[key] === undefined) return []
+    written.add(key)
+    return [`${key}=${values[key]}`]
+  })
+  while (updated.length > 0 && updated[updated.length - 1] === '') updated.pop()
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!written.has(key) && value !== undefined) updated.push(`${key}=${value}`)
+  }
+  writeFileSync(ENV_FILE, updated.join('\n') + '\n')
+}
+
+function parseSatoshis(value: string | undefined): number {
+  const satoshis = Number(value)
+  if (!Number.isSafeInteger(satoshis) || satoshis <= 0) {
+    throw new Error('Amount must be a positive whole number of satoshis')
+  }
+  return satoshis
+}
+
+// A fresh derivation for every payment, so repeated runs never reuse a key
+function newRemittance(): Remittance {
+  return {
+    derivationPrefix: Utils.toBase64(Random(8)),
+    derivationSuffix: Utils.toBase64(Random(8))
+  }
+}
+
+// P2PKH output the recipient unlocks with the BRC-29 key derived for this payment
+async function paymentLockingScript(payer: WalletInterface, recipientKey: string, remittance: Remittance): Promise<string> {
+  const { publicKey: derivedPublicKey } = await payer.getPublicKey({
+    counterparty: recipientKey,
+    protocolID: brc29ProtocolID,
+    keyID: `${remittance.derivationPrefix} ${remittance.derivationSuffix}`
+  })
+  return new P2PKH().lock(PublicKey.fromString(derivedPublicKey).toAddress()).toHex()
+}
+
+async function connectLocalWallet(): Promise<WalletClient> {
+  const localWallet = new WalletClient('json-api', 'localhost')
+  await localWallet.connectToSubstrate()
+  return localWallet
+}
+
+async function listAllOutputs(wallet: WalletInterface, basket: string) {
+  const outputs = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await wallet.listOutputs({ basket, includeTags: true, limit: PAGE_SIZE, offset })
+    outputs.push(...page.outputs)
+    if (page.outputs.length < PAGE_SIZE || outputs.length >= page.totalOutputs) return outputs
+  }
+}
+
+async function init(options: { network?: string, storage?: string, 'storage-url'?: string, database?: string, 'self-hosted'?: boolean }) {
+  const network = options.network ?? process.env.NETWORK ?? 'main'
+  if (!NETWORKS.includes(network)) {
+    throw new Error(`--network must be one of ${NETWORKS.join(', ')}`)
+  }
+  const storage = options['self-hosted'] ? 'local' : options.storage ?? process.env.WALLET_STORAGE ?? 'remote'
+  if (storage !== 'remote' && storage !== 'local') {
+    throw new Error('--storage must be remote or local')
+  }
+
+  // Local storage keeps the storage server as a backup, which also moves a wallet kept
+  // on the server until now into the database. --self-hosted leaves the server out.
+  let storageUrl: string | undefined = options['storage-url'] ?? process.env.STORAGE_URL ?? DEFAULT_STORAGE_URL
+  if (options['self-hosted']) storageUrl = undefined
+
+  const existingKey = process.env.PRIVATE_KEY
+  const privateKey = existingKey ? PrivateKey.fromHex(existingKey) : PrivateKey.fromRandom()
+  console.log(existingKey ? `Using the existing wallet key in ${ENV_FILE}` : 'Created a new wallet key')
+
+  updateEnvFile({
+    PRIVATE_KEY: privateKey.toHex(),
+    STORAGE_URL: storageUrl,
+    NETWORK: network,
+    WALLET_STORAGE: storage,
+    WALLET_DATABASE: storage === 'local' ? options.database ?? process.env.WALLET_DATABASE ?? DEFAULT_WALLET_DATABASE : undefined
+  })
+
+  console.log(`Network: ${network}`)
+  if (storage === 'remote') {
+    console.log(`Storage: ${storageUrl}`)
+  } else {
+    console.log(`Storage: local database${storageUrl ? `, backed up to ${storageUrl}` : ', self-hosted'}`)
+  }
+  console.log(`Identity: ${privateKey.toPublicKey().toString()}`)
+  console.log(`\nSaved to ${ENV_FILE}. Fund the wallet with: npm run wallet -- fund <satoshis>`)
+}
+
+async function fund(satoshis: number) {
+  const { wallet, backUpWallet } = await import('./wallet')
+  const localWallet = await connectLocalWallet()
+  const { publicKey: payer } = await localWallet.getPublicKey({ identityKey: true })
+  const { publicKey: payee } = await wallet.getPublicKey({ identityKey: true })
+  console.log('Payer identity:', payer)
+  console.log('Payee identity:', payee)
+
+  const remittance = newRemittance()
+  const lockingScript = await paymentLockingScript(localWallet, payee, remittance)
+
+  console.log(`Funding backend wallet with ${satoshis} satoshis...`)
+  const { txid, tx } = await localWallet.createAction({
+    outputs: [{
+      lockingScript,
+      satoshis,
+      outputDescription: 'Fund backend wallet'
+    }],
+    description: `Funding backend wallet with ${satoshis} sats`,
+    options: {
+      randomizeOutputs: false
+    }
+  })
+  if (!tx) throw new Error('No transaction created')
+
+  await wallet.internalizeAction({
+    tx,
+    outputs: [{
+      outputIndex: 0,
+      protocol: 'wallet payment',
+      paymentRemittance: { ...remittance, senderIdentityKey: payer }
+    }],
+    description: 'Incoming wallet funding'
+  })
+  await backUpWallet()
+
+  console.log(`\nBackend wallet funded with ${satoshis} satoshis`)
+  console.log(`TXID: ${txid}`)
+  console.log(`https://whatsonchain.com/tx/${txid}`)
+}
+
+async function balance() {
+  const { wallet } = await import('./wallet')
+  const outputs = await listAllOutputs(wallet, 'default')
+  const total = outputs.reduce((sum, output) => sum + output.satoshis, 0)
+  console.log(`\nBalance: ${total} satoshis in ${outputs.length} outputs`)
+}
+
+async function listOutputs(basket: string) {
+  const { wallet } = await import('./wallet')
+  const outputs = await listAllOutputs(wallet, basket)
+  console.log(`\n${outputs.length} outputs in basket "${basket}":`)
+  for (const output of outputs) {
+    const tags = output.tags?.length ? `  [${output.tags.join(', ')}]` : ''
+    console.log(`  ${output.outpoint}  ${output.satoshis} sats${tags}`)
+  }
+}
+
+async function withdraw(satoshis: number) {
+  const { wallet, backUpWallet } = await import('./wallet')
+  const localWallet = await connectLocalWallet()
+  const { publicKey: recipient } = await localWallet.getPublicKey({ identityKey: true })
+  const { publicKey: sender } = await wallet.getPublicKey({ identityKey: true })
+
+  const remittance = newRemittance()
+  const lockingScript = await paymentLockingScript(wallet, recipient, remittance)
+
+  console.log(`Withdrawing ${satoshis} satoshis to ${recipient}...`)
+  const { txid, tx } = await wallet.createAction({
+    outputs: [{
+      lockingScript,
+      satoshis,
+      outputDescription: 'Withdrawal to local wallet'
+    }],
+    description: `Withdrawing ${satoshis} sats to local wallet`,
+    options: {
+      randomizeOutputs: false
+    }
+  })
+  if (!tx) throw new Error('No transaction created')
+  await backUpWallet()
+
+  try {
+    await localWallet.internalizeAction({
+      tx,
+      outputs: [{
+        outputIndex: 0,
+        protocol: 'wallet payment',
+        paymentRemittance: { ...remittance, senderIdentityKey: sender }
+      }],
+      description: 'Withdrawal from crowdfunding backend'
+    })
+  } catch (error: any) {
+    // The payment is already sent, so print what the local wallet needs to accept it later
+    console.error(`Transaction ${txid} was sent, but the local wallet did not accept it:`, error.message)
+    console.error('Payment remittance:', JSON.stringify({ ...remittance, senderIdentityKey: sender }))
+    throw error
+  }
+
+  console.log(`\nWithdrew ${satoshis} satoshis to your local wallet`)
+  console.log(`TXID: ${txid}`)
+  console.log(`https://whatsonchain.com/tx/${txid}`)
+}
+
+function priorKeys(): string[] {
+  return (process.env.PREVIOUS_PRIVATE_KEYS ?? '').split(',').map(key => key.trim()).filter(Boolean)
+}
+
+async function rotateKey() {
+  const previousKeyHex = process.env.PRIVATE_KEY
+  if (!previousKeyHex) {
+    throw new Error(`No PRIVATE_KEY in ${ENV_FILE} to rotate. Run: npm run wallet -- init`)
+  }
+  const previousKey = PrivateKey.fromHex(previousKeyHex)
+  const privateKey = PrivateKey.fromRandom()
+
+  // The previous key is kept so the tokens it issued can still be verified
+  const values = {
+    PRIVATE_KEY: privateKey.toHex(),
+    PREVIOUS_PRIVATE_KEYS: [...priorKeys(), previousKeyHex].join(',')
+  }
+  updateEnvFile(values)
+  Object.assign(process.env, values)
+  console.log(`Previous identity: ${previousKey.toPublicKey().toString()}`)
+  console.log(`New identity: ${privateKey.toPublicKey().toString()}`)
+
+  // Opening the campaign store moves it over to the new key
+  const { getStore } = await import('../lib/storage')
+  await (await getStore()).close()
+
+  console.log(`\nKey rotated and saved to ${ENV_FILE}. Funds stay in the previous wallet: withdraw them`)
+  console.log('with PRIVATE_KEY=<previous key> npm run wallet -- withdraw <satoshis>, and fund the new one.')
+}
+
+async function exportCampaign(campaignId: string | undefined, format: string, output?: string) {
+  if (!campaignId) throw new Error('Campaign id is required')
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`--format must be one of ${EXPORT_FORMATS.join(', ')}`)
+  }
+
+  const { getCampaign, getStore } = await import('../lib/storage')
+  try {
+    const campaign = await getCampaign(campaignId)
+    if (!campaign) throw new Error(`Campaign ${campaignId} not found`)
+
+    const file = output ?? `campaign-${campaign.id}-investors.${format}`
+    const content = format === 'csv' ? investorCsv(campaign) : JSON.stringify(investorExport(campaign), null, 2)
+    writeFileSync(file, content)
+    console.log(`\nExported ${campaign.investors.length} investors of campaign ${campaign.id} to ${file}`)
+  } finally {
+    await (await getStore()).close()
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      network: { type: 'string' },
+      storage: { type: 'string' },
+      'storage-url': { type: 'string' },
+      database: { type: 'string' },
+      'self-hosted': { type: 'boolean' },
+      basket: { type: 'string', default: 'default' },
+      format: { type: 'string', default: 'json' },
+      output: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+  const [command, argument] = positionals
+
+  switch (values.help ? undefined : command) {
+    case 'init':
+      return init(values)
+    case 'fund':
+      return fund(parseSatoshis(argument))
+    case 'balance':
+      return balance()
+    case 'list-outputs':
+      return listOutputs(values.basket)
+    case 'withdraw':
+      return withdraw(parseSatoshis(argument))
+    case 'rotate-key':
+      return rotateKey()
+    case 'export-campaign':
+      return exportCampaign(argument, values.format, values.output)
+    default:
+      console.log(USAGE)
+      if (!values.help) process.exitCode = 1
+  }
+}
+
+main()
+  // The wallet monitor and pending webhook retries would keep the process alive
+  .then(() => process.exit())
+  .catch(error => {
+    console.error(error.message ?? error)
+    process.exit(1)
+  })
@@ -0,0 +1,202 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import type { Server } from 'http'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { AuthFetch, CreateActionArgs, Random, Transaction, Utils, WalletProtocol } from '@bsv/sdk'
+
+// End-to-end run of the API served by the standalone server, offline in mock mode.
+// Set before the modules below are loaded, as they read their configuration on import.
+const dataDir = mkdtempSync(join(tmpdir(), 'crowdfunding-test-'))
+process.env.NETWORK = 'mock'
+process.env.CROWDFUNDING_STORAGE = 'json'
+process.env.CROWDFUNDING_DATA_FILE = join(dataDir, 'crowdfunding-data.json')
+process.env.OVERLAY_DATA_FILE = join(dataDir, 'overlay-data.json')
+process.env.WEBHOOK_DATA_FILE = join(dataDir, 'webhook-data.json')
+
+const { MockWallet, mockWalletKey } = await import('../lib/mockWallet')
+// The investor also operates the server, to create campaigns through the admin API
+const investorKey = mockWalletKey('api test investor')
+process.env.OPERATOR_KEYS = investorKey.toPublicKey().toString()
+const { decodeToken, decryptTokenPayload, tokenCustomInstructions } = await import('../lib/token')
+const { createApp } = await import('../src/server')
+
+const brc29ProtocolID: WalletProtocol = [2, '3241645161d8']
+
+// Seeded on first start, with a goal of 100 sats
+const CAMPAIGN_ID = 'default'
+
+// Investor whose wallet pays more or less than each payment it is asked for
+class MispayingWallet extends MockWallet {
+  constructor(name: string, private readonly difference: number) {
+    super(mockWalletKey(name))
+  }
+
+  async createAction(args: CreateActionArgs) {
+    return super.createAction({
+      ...args,
+      outputs: args.outputs?.map(output => ({ ...output, satoshis: output.satoshis + this.difference }))
+    })
+  }
+}
+
+describe('invest and claim through the API', () => {
+  let server: Server
+  let baseUrl: string
+  const investor = new MockWallet(investorKey)
+  const authFetch = new AuthFetch(investor)
+
+  before(async () => {
+    const app = await createApp()
+    server = app.listen(0)
+    await new Promise(resolve => server.once('listening', resolve))
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+  })
+
+  after(() => {
+    server.closeAllConnections()
+    server.close()
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  async function post(path: string, body: unknown, client = authFetch) {
+    const response = await client.fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    return { status: response.status, body: await response.json() }
+  }
+
+  async function status() {
+    const response = await fetch(`${baseUrl}/api/campaigns/${CAMPAIGN_ID}/status`)
+    return response.json()
+  }
+
+  it('rejects an investment over the funding cap before asking for payment', { timeout: 30_000 }, async () => {
+    const { status: code, body } = await post(`/api/campaigns/${CAMPAIGN_ID}/invest`, { amount: 1000 })
+    assert.equal(code, 400)
+    assert.equal(body.error, 'Maximum investment is 100 sats')
+  })
+
+  it('rejects a payment for less than the requested amount', { timeout: 30_000 }, async () => {
+    const underpaying = new AuthFetch(new MispayingWallet('api test underpaying investor', -10))
+    const { status: code, body } = await post(`/api/campaigns/${CAMPAIGN_ID}/invest`, { amount: 50 }, underpaying)
+    assert.equal(code, 400)
+    assert.equal(body.error, 'Payment of 40 sats is less than the 50 sats requested')
+
+    const campaign = await status()
+    assert.equal(campaign.raised, 0)
+    assert.equal(campaign.investorCount, 0)
+  })
+
+  it('takes a payment answering the 402 challenge', { timeout: 30_000 }, async () => {
+    const { status: code, body } = await post(`/api/campaigns/${CAMPAIGN_ID}/invest`, { amount: 100 })
+    assert.equal(code, 200, body.error)
+    assert.equal(body.amount, 100)
+    assert.equal(body.totalRaised, 100)
+
+    const campaign = await status()
+    assert.equal(campaign.raised, 100)
+    assert.equal(campaign.investorCount, 1)
+  })
+
+  it('issues the token to the investor', { timeout: 30_000 }, async () => {
+    const { identityKey: backendKey } = await (await fetch(`${baseUrl}/api/wallet-info`)).json()
+    const { publicKey: paymentKey } = await investor.getPublicKey({
+      protocolID: brc29ProtocolID,
+      keyID: `${Utils.toBase64(Random(8))} ${Utils.toBase64(Random(8))}`,
+      counterparty: 'anyone'
+    })
+
+    const { status: code, body } = await post(`/api/campaigns/${CAMPAIGN_ID}/complete`, { paymentKey })
+    assert.equal(code, 200, body.error)
+    assert.equal(body.allRedeemed, true)
+
+    const token = decodeToken(Transaction.fromAtomicBEEF(body.tx).outputs[body.outputIndex].lockingScript)
+    assert.ok(token)
+    assert.equal(token.campaignId, CAMPAIGN_ID)
+    assert.equal(token.issuerKey, backendKey)
+    const payload = await decryptTokenPayload(investor, token)
+    assert.equal(payload.amount, 100)
+    assert.equal(payload.share, 1)
+
+    await investor.internalizeAction({
+      tx: body.tx,
+      outputs: [{
+        outputIndex: body.outputIndex,
+        protocol: 'basket insertion',
+        insertionRemittance: { basket: 'crowdfunding', customInstructions: tokenCustomInstructions(backendKey) }
+      }],
+      description: 'Internalize crowdfunding token'
+    })
+    const { outputs } = await investor.listOutputs({ basket: 'crowdfunding' })
+    assert.equal(outputs.length, 1)
+
+    const claimedAgain = await post(`/api/campaigns/${CAMPAIGN_ID}/complete`, { paymentKey })
+    assert.equal(claimedAgain.status, 400)
+    assert.equal(claimedAgain.body.error, 'Investor already redeemed')
+  })
+
+  it('rejects an investment below the campaign minimum before asking for payment', { timeout: 30_000 }, async () => {
+    const created = await post('/api/admin/campaigns', { title: 'Limits', goal: 100, minInvestment: 20 })
+    assert.equal(created.status, 201, created.body.error)
+
+    const { status: code, body } = await post(`/api/campaigns/${created.body.id}/invest`, { amount: 10 })
+    assert.equal(code, 400)
+    assert.equal(body.error, 'Minimum investment is 20 sats')
+  })
+
+  it('credits an over-cap payment up to the cap and refunds the rest', { timeout: 30_000 }, async () => {
+    const created = await post('/api/admin/campaigns', { title: 'Over cap', goal: 100 })
+    assert.equal(created.status, 201, created.body.error)
+    const campaignId = created.body.id
+
+    const overpayingWallet = new MispayingWallet('api test overpaying investor', 30)
+    const overpaying = new AuthFetch(overpayingWallet)
+    const { status: code, body } = await post(`/api/campaigns/${campaignId}/invest`, { amount: 100 }, overpaying)
+    assert.equal(code, 200, body.error)
+    assert.equal(body.amount, 100)
+    assert.equal(body.totalRaised, 100)
+    assert.equal(body.refund.status, 'sent')
+    assert.equal(body.refund.amount, 30)
+    assert.ok(body.refund.txid)
+
+    // The operator reads the recorded contribution, with its refund
+    const { publicKey: overpayingKey } = await overpayingWallet.getPublicKey({ identityKey: true })
+    const response = await authFetch.fetch(`${baseUrl}/api/campaigns/${campaignId}/investors/${overpayingKey}`)
+    const investor = await response.json()
+    assert.equal(response.status, 200, investor.error)
+    assert.equal(investor.amount, 100)
+    assert.equal(investor.contributions.length, 1)
+    assert.equal(investor.contributions[0].amount, 100)
+    assert.deepEqual(investor.contributions[0].excessRefund, { status: 'sent', amount: 30, txid: body.refund.txid })
+  })
+
+  it('refunds the investors of a campaign that missed its goal', { timeout: 30_000 }, async () => {
+    const deadline = Date.now() + 3000
+    const created = await post('/api/admin/campaigns', { title: 'Missed goal', goal: 1000, deadline })
+    assert.equal(created.status, 201, created.body.error)
+    const campaignId = created.body.id
+
+    const invested = await post(`/api/campaigns/${campaignId}/invest`, { amount: 50 })
+    assert.equal(invested.status, 200, invested.body.error)
+
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, deadline - Date.now())))
+    const response = await fetch(`${baseUrl}/api/campaigns/${campaignId}/refund`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ identityKey: investorKey.toPublicKey().toString() })
+    })
+    const refund = await response.json()
+    assert.equal(response.status, 200, refund.error)
+    assert.equal(refund.amount, 50)
+    assert.ok(refund.txid)
+
+    const campaign = await (await fetch(`${baseUrl}/api/campaigns/${campaignId}/status`)).json()
+    assert.equal(campaign.status, 'failed')
+    assert.equal(campaign.investors[0].refundStatus, 'sent')
+  })
+})
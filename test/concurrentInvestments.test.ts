@@ -0,0 +1,85 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { PrivateKey, Random, Utils } from '@bsv/sdk'
+import type { CampaignStore } from '../lib/storage'
+
+// Runs offline against the mock wallet, with nothing written to the working directory.
+// Set before the modules below are loaded, as they read their configuration on import.
+const dataDir = mkdtempSync(join(tmpdir(), 'crowdfunding-test-'))
+process.env.NETWORK = 'mock'
+process.env.WEBHOOK_DATA_FILE = join(dataDir, 'webhook-data.json')
+
+const { createCampaign } = await import('../lib/crowdfunding')
+const { addCampaign, getCampaign, updateCampaign } = await import('../lib/storage')
+const { JsonCampaignStore } = await import('../lib/storage/jsonStore')
+const { SqliteCampaignStore } = await import('../lib/storage/sqliteStore')
+const { wallet } = await import('../src/wallet')
+
+const INVESTMENTS = 40
+const INVESTORS = 8
+
+// The campaign store and locks are shared through globalThis, so each backend is
+// swapped in there for the routes' own storage functions to use
+const shared = globalThis as typeof globalThis & {
+  crowdfundingStore?: Promise<CampaignStore>
+}
+
+const backends: Record<string, (identity: string) => Promise<CampaignStore>> = {
+  json: async identity => new JsonCampaignStore(identity, join(dataDir, 'crowdfunding-data.json')),
+  sqlite: identity => SqliteCampaignStore.open(identity, join(dataDir, 'crowdfunding.sqlite'))
+}
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+for (const [name, openStore] of Object.entries(backends)) {
+  describe(`concurrent investments (${name} store)`, () => {
+    let store: CampaignStore
+
+    before(async () => {
+      const { publicKey: identity } = await wallet.getPublicKey({ identityKey: true })
+      store = await openStore(identity)
+      shared.crowdfundingStore = Promise.resolve(store)
+    })
+
+    after(async () => {
+      shared.crowdfundingStore = undefined
+      await store.close()
+    })
+
+    it('records every investment exactly once', async () => {
+      const campaign = createCampaign({ title: 'Concurrency', description: '', goal: 1_000_000 })
+      await addCampaign(campaign)
+
+      const investorKeys = Array.from({ length: INVESTORS }, () => PrivateKey.fromRandom().toPublicKey().toString())
+      const amounts = Array.from({ length: INVESTMENTS }, (_, i) => 100 + i)
+
+      await Promise.all(amounts.map((amount, i) =>
+        updateCampaign(campaign.id, async (current, record) => {
+          // Yield between reading the campaign and recording the investment, so
+          // unserialized updates would overwrite each other
+          await new Promise(resolve => setImmediate(resolve))
+          record({
+            type: 'invested',
+            identityKey: investorKeys[i % INVESTORS],
+            contribution: { amount, timestamp: Date.now(), txid: Utils.toHex(Random(32)) }
+          })
+        })
+      ))
+
+      const total = amounts.reduce((sum, amount) => sum + amount, 0)
+      // Both the state replayed from the event log and the stored snapshot
+      for (const saved of [await getCampaign(campaign.id), await store.getCampaign(campaign.id)]) {
+        assert.ok(saved)
+        assert.equal(saved.raised, total)
+        assert.equal(saved.investors.length, INVESTORS)
+        assert.equal(saved.investors.reduce((count, investor) => count + investor.contributions.length, 0), INVESTMENTS)
+        assert.equal(saved.investors.reduce((sum, investor) => sum + investor.amount, 0), total)
+      }
+    })
+  })
+}
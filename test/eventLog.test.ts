@@ -0,0 +1,114 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import type { Server } from 'http'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { PrivateKey, Random, Utils } from '@bsv/sdk'
+
+// Runs offline against the mock wallet, with nothing written to the working directory.
+// Set before the modules below are loaded, as they read their configuration on import.
+const dataDir = mkdtempSync(join(tmpdir(), 'crowdfunding-test-'))
+process.env.NETWORK = 'mock'
+process.env.CROWDFUNDING_STORAGE = 'json'
+process.env.CROWDFUNDING_DATA_FILE = join(dataDir, 'crowdfunding-data.json')
+process.env.OVERLAY_DATA_FILE = join(dataDir, 'overlay-data.json')
+process.env.WEBHOOK_DATA_FILE = join(dataDir, 'webhook-data.json')
+
+const { createCampaign, truncateKey } = await import('../lib/crowdfunding')
+const { replayCampaign } = await import('../lib/eventLog')
+const { addCampaign, getStore, listEvents, updateCampaign } = await import('../lib/storage')
+const { createApp } = await import('../src/server')
+
+describe('campaign event log', () => {
+  let server: Server
+  let baseUrl: string
+  const campaign = createCampaign({ title: 'Event log', description: '', goal: 1000 })
+  const investorKeys = Array.from({ length: 2 }, () => PrivateKey.fromRandom().toPublicKey().toString())
+  const derivationPrefix = Utils.toBase64(Random(16))
+
+  before(async () => {
+    const app = await createApp()
+    server = app.listen(0)
+    await new Promise(resolve => server.once('listening', resolve))
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+
+    // Created, edited, then three investments: five events
+    await addCampaign(campaign)
+    await updateCampaign(campaign.id, (_, record) => {
+      record({ type: 'edited', update: { title: 'Event log, edited' } })
+    })
+    for (const [i, amount] of [100, 200, 300].entries()) {
+      await updateCampaign(campaign.id, (_, record) => {
+        record({
+          type: 'invested',
+          identityKey: investorKeys[i % investorKeys.length],
+          contribution: {
+            amount,
+            timestamp: Date.now(),
+            txid: Utils.toHex(Random(32)),
+            derivationPrefix,
+            derivationSuffix: Utils.toBase64(Random(16))
+          }
+        })
+      })
+    }
+  })
+
+  after(() => {
+    server.closeAllConnections()
+    server.close()
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  async function page(query: string) {
+    const response = await fetch(`${baseUrl}/api/events?${query}`)
+    return { status: response.status, text: await response.text() }
+  }
+
+  it('rebuilds a campaign from its logged events', async () => {
+    const events = await listEvents({ campaignId: campaign.id })
+    assert.deepEqual(events.map(event => event.type), ['created', 'edited', 'invested', 'invested', 'invested'])
+
+    const replayed = replayCampaign(events)
+    assert.ok(replayed)
+    assert.equal(replayed.title, 'Event log, edited')
+    assert.equal(replayed.raised, 600)
+    assert.deepEqual(replayed.investors.map(investor => investor.amount), [400, 200])
+    // The same state as the snapshot saved with the last event, which the JSON store
+    // keeps without undefined fields
+    assert.deepEqual(JSON.parse(JSON.stringify(replayed)), await (await getStore()).getCampaign(campaign.id))
+  })
+
+  it('pages through the events with after and limit', async () => {
+    const logged = await listEvents({ campaignId: campaign.id })
+
+    const first = JSON.parse((await page(`campaignId=${campaign.id}&limit=3`)).text)
+    assert.deepEqual(first.events.map((event: any) => event.sequence), logged.slice(0, 3).map(event => event.sequence))
+    assert.equal(first.next, logged[2].sequence)
+
+    const second = JSON.parse((await page(`campaignId=${campaign.id}&limit=3&after=${first.next}`)).text)
+    assert.deepEqual(second.events.map((event: any) => event.sequence), logged.slice(3).map(event => event.sequence))
+    assert.equal(second.next, undefined)
+
+    const invalid = await page('limit=0')
+    assert.equal(invalid.status, 400)
+  })
+
+  it('shows no more of an event than the campaign status does', async () => {
+    const { status, text } = await page(`campaignId=${campaign.id}`)
+    assert.equal(status, 200)
+
+    const invested = JSON.parse(text).events.filter((event: any) => event.type === 'invested')
+    assert.equal(invested.length, 3)
+    assert.equal(invested[0].identityKey, truncateKey(investorKeys[0]))
+    assert.equal(invested[0].contribution.amount, 100)
+    assert.equal(invested[0].contribution.derivationPrefix, undefined)
+
+    for (const identityKey of investorKeys) {
+      assert.ok(!text.includes(identityKey))
+    }
+    assert.ok(!text.includes(derivationPrefix))
+  })
+})
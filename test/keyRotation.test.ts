@@ -0,0 +1,177 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { P2PKH, PublicKey, Random, Transaction, Utils, WalletInterface, WalletProtocol } from '@bsv/sdk'
+import type { CampaignStore } from '../lib/storage'
+
+// Runs offline against the mock wallet, with nothing written to the working directory.
+// Set before the modules below are loaded, as they read their configuration on import.
+const dataDir = mkdtempSync(join(tmpdir(), 'crowdfunding-test-'))
+process.env.NETWORK = 'mock'
+process.env.WEBHOOK_DATA_FILE = join(dataDir, 'webhook-data.json')
+
+const { createCampaign } = await import('../lib/crowdfunding')
+const { replayCampaigns } = await import('../lib/eventLog')
+const { MockWallet, mockWalletKey } = await import('../lib/mockWallet')
+const { addPriorIssuerHistory, findDiscrepancies } = await import('../lib/reconcile')
+const { addCampaign, rotateKey, updateCampaign } = await import('../lib/storage')
+const { JsonCampaignStore } = await import('../lib/storage/jsonStore')
+const { SqliteCampaignStore } = await import('../lib/storage/sqliteStore')
+const { investmentLabels, readWalletHistory } = await import('../lib/walletHistory')
+const { wallet } = await import('../src/wallet')
+
+const brc29ProtocolID: WalletProtocol = [2, '3241645161d8']
+
+// The campaign store is shared through globalThis, so each store is swapped in there
+// for the storage functions to use
+const shared = globalThis as typeof globalThis & {
+  crowdfundingStore?: Promise<CampaignStore>
+}
+
+const backends: Record<string, (identity: string) => Promise<CampaignStore>> = {
+  json: async identity => new JsonCampaignStore(identity, join(dataDir, 'crowdfunding-data.json')),
+  sqlite: identity => SqliteCampaignStore.open(identity, join(dataDir, 'crowdfunding.sqlite'))
+}
+
+// Investment paid to the issuer and internalized with its labels, as the invest route does
+async function pay(investor: WalletInterface, issuer: WalletInterface, campaignId: string, amount: number) {
+  const { publicKey: investorKey } = await investor.getPublicKey({ identityKey: true })
+  const { publicKey: issuerKey } = await issuer.getPublicKey({ identityKey: true })
+  const derivationPrefix = Utils.toBase64(Random(8))
+  const derivationSuffix = Utils.toBase64(Random(8))
+  const { publicKey } = await investor.getPublicKey({
+    protocolID: brc29ProtocolID,
+    keyID: `${derivationPrefix} ${derivationSuffix}`,
+    counterparty: issuerKey
+  })
+  const { tx } = await investor.createAction({
+    description: 'Crowdfunding investment',
+    outputs: [{
+      lockingScript: new P2PKH().lock(PublicKey.fromString(publicKey).toAddress()).toHex(),
+      satoshis: amount,
+      outputDescription: 'Investment'
+    }],
+    options: { randomizeOutputs: false }
+  })
+  await issuer.internalizeAction({
+    tx: tx!,
+    outputs: [{
+      outputIndex: 0,
+      protocol: 'wallet payment',
+      paymentRemittance: { derivationPrefix, derivationSuffix, senderIdentityKey: investorKey }
+    }],
+    description: 'Payment for request',
+    labels: investmentLabels(campaignId, investorKey)
+  })
+  const txid = Transaction.fromAtomicBEEF(tx!).id('hex')
+  return {
+    identityKey: investorKey,
+    contribution: { amount, timestamp: Date.now(), txid, derivationPrefix, derivationSuffix }
+  }
+}
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+for (const [name, openStore] of Object.entries(backends)) {
+  describe(`key rotation (${name} store)`, () => {
+    const priorWallet = new MockWallet(mockWalletKey(`rotation test prior key ${name}`))
+    const investor = new MockWallet(mockWalletKey('rotation test investor'))
+    const carried = createCampaign({ title: 'Still running', description: '', goal: 1000 })
+    const settled = createCampaign({ title: 'Refunded', description: '', goal: 1000 })
+    let priorIdentity: string
+    let identity: string
+    let investorKey: string
+    let store: CampaignStore
+    let archivedSequence: number
+
+    before(async () => {
+      priorIdentity = (await priorWallet.getPublicKey({ identityKey: true })).publicKey
+      identity = (await wallet.getPublicKey({ identityKey: true })).publicKey
+      investorKey = (await investor.getPublicKey({ identityKey: true })).publicKey
+
+      // Both campaigns take an investment under the prior key. One is then closed below
+      // goal and refunded, which settles it.
+      const priorStore = await openStore(priorIdentity)
+      shared.crowdfundingStore = Promise.resolve(priorStore)
+      for (const campaign of [carried, settled]) {
+        await addCampaign(campaign)
+        const { identityKey, contribution } = await pay(investor, priorWallet, campaign.id, 100)
+        await updateCampaign(campaign.id, (_, record) => {
+          record({ type: 'invested', identityKey, contribution })
+        })
+      }
+      await updateCampaign(settled.id, (_, record) => {
+        record({ type: 'status-changed', status: 'closed' })
+        record({
+          type: 'refunded',
+          identityKey: investorKey,
+          refund: { status: 'sent', amount: 100, txid: Utils.toHex(Random(32)), timestamp: Date.now() }
+        })
+      })
+      archivedSequence = (await priorStore.listEvents()).at(-1)!.sequence
+      await priorStore.close()
+
+      store = await openStore(identity)
+      shared.crowdfundingStore = Promise.resolve(store)
+      await rotateKey(store, priorIdentity, identity)
+    })
+
+    after(async () => {
+      shared.crowdfundingStore = undefined
+      await store.close()
+    })
+
+    it('carries running campaigns over and archives settled ones', async () => {
+      assert.equal(await store.storedIdentity(), identity)
+      const campaigns = await store.listCampaigns()
+      assert.deepEqual(campaigns.map(campaign => campaign.id), [carried.id])
+      assert.deepEqual(campaigns[0].priorIssuerKeys, [priorIdentity])
+      assert.equal(campaigns[0].raised, 100)
+
+      const rotations = await store.listKeyRotations()
+      assert.equal(rotations.length, 1)
+      assert.equal(rotations[0].previousIdentity, priorIdentity)
+      assert.equal(rotations[0].identity, identity)
+
+      // The archive keeps the prior key's whole log, the settled campaign included
+      const archived = replayCampaigns(await store.listIssuerEvents(priorIdentity))
+      assert.deepEqual(archived.map(campaign => campaign.id), [carried.id, settled.id])
+      assert.equal(archived[1].status, 'failed')
+      assert.equal(archived[1].investors[0].refund?.status, 'sent')
+    })
+
+    it('numbers events after the archived log', async () => {
+      const events = await store.listEvents()
+      assert.deepEqual(events.map(event => event.type), ['created', 'invested', 'issuer-rotated'])
+      assert.ok(events[0].sequence > archivedSequence)
+
+      await updateCampaign(carried.id, (_, record) => {
+        record({ type: 'edited', update: { title: 'Still running, new key' } })
+      })
+      const [last] = (await store.listEvents()).slice(-1)
+      assert.equal(last.type, 'edited')
+      assert.equal(last.sequence, events.at(-1)!.sequence + 1)
+    })
+
+    it('reconciles carried campaigns against the prior key\'s wallet history', async () => {
+      const campaigns = await store.listCampaigns()
+      const history = await readWalletHistory(wallet)
+
+      // The payment went to the prior key, so the current wallet alone has no record of it
+      assert.deepEqual(findDiscrepancies(campaigns, history).map(d => d.type), ['phantom-contribution'])
+
+      const unchecked = await addPriorIssuerHistory(history, campaigns, async key =>
+        key === priorIdentity ? priorWallet : undefined
+      )
+      assert.deepEqual(unchecked, [])
+      assert.deepEqual(findDiscrepancies(campaigns, history), [])
+
+      // Without the prior key, the campaign is reported rather than checked
+      assert.deepEqual(await addPriorIssuerHistory(await readWalletHistory(wallet), campaigns, async () => undefined), [carried.id])
+    })
+  })
+}
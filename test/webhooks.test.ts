@@ -0,0 +1,113 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { createServer, IncomingHttpHeaders, Server } from 'http'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { PrivateKey, ProtoWallet, Utils } from '@bsv/sdk'
+
+// Runs offline against the mock wallet, with nothing written to the working directory.
+// Set before the modules below are loaded, as they read their configuration on import.
+const dataDir = mkdtempSync(join(tmpdir(), 'crowdfunding-test-'))
+process.env.NETWORK = 'mock'
+process.env.WEBHOOK_DATA_FILE = join(dataDir, 'webhook-data.json')
+
+const {
+  createWebhook,
+  deliverWebhooks,
+  listDeliveries,
+  WEBHOOK_SIGNATURE_KEY_ID,
+  WEBHOOK_SIGNATURE_PROTOCOL
+} = await import('../lib/webhooks')
+const { wallet } = await import('../src/wallet')
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+// Checks a delivery the way a receiver would
+async function verifyDelivery({ headers, body }: ReceivedRequest, backendKey: string): Promise<boolean> {
+  try {
+    const { valid } = await new ProtoWallet('anyone').verifySignature({
+      data: Utils.toArray(body, 'utf8'),
+      signature: Utils.toArray(String(headers['x-webhook-signature']), 'hex'),
+      protocolID: WEBHOOK_SIGNATURE_PROTOCOL,
+      keyID: WEBHOOK_SIGNATURE_KEY_ID,
+      counterparty: backendKey
+    })
+    return valid
+  } catch {
+    return false
+  }
+}
+
+describe('webhook delivery', () => {
+  let receiver: Server
+  let url: string
+  const received: ReceivedRequest[] = []
+
+  before(async () => {
+    // Fails the first delivery, accepts the ones after it
+    receiver = createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => {
+        received.push({ headers: req.headers, body })
+        res.writeHead(received.length === 1 ? 500 : 200).end()
+      })
+    })
+    receiver.listen(0)
+    await new Promise(resolve => receiver.once('listening', resolve))
+    url = `http://localhost:${(receiver.address() as AddressInfo).port}/hooks`
+  })
+
+  after(() => {
+    receiver.closeAllConnections()
+    receiver.close()
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('signs each delivery and retries one the receiver failed', { timeout: 30_000 }, async () => {
+    const webhook = createWebhook(url, ['investor'])
+    const investorKey = PrivateKey.fromRandom().toPublicKey().toString()
+    deliverWebhooks('default', {
+      type: 'investor',
+      identityKey: investorKey,
+      amount: 100,
+      totalAmount: 100,
+      isNew: true,
+      timestamp: Date.now()
+    })
+    // Not subscribed to, so never delivered
+    deliverWebhooks('default', { type: 'funded', raised: 100, goal: 100 })
+
+    // The retry follows the failed attempt after 2 seconds
+    while (listDeliveries(webhook.id)[0]?.status !== 'delivered') {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+
+    const [delivery] = listDeliveries(webhook.id)
+    assert.deepEqual(delivery.attempts.map(attempt => attempt.statusCode), [500, 200])
+    assert.equal(delivery.attempts[0].error, 'Receiver responded with 500')
+    assert.equal(received.length, 2)
+    assert.equal(received[1].body, received[0].body)
+
+    const { publicKey: backendKey } = await wallet.getPublicKey({ identityKey: true })
+    const [, request] = received
+    assert.equal(request.headers['x-webhook-identity-key'], backendKey)
+    assert.equal(request.headers['x-webhook-event'], 'investor')
+    assert.equal(await verifyDelivery(request, backendKey), true)
+
+    // Webhooks are for operators, so they carry full identity keys
+    const payload = JSON.parse(request.body)
+    assert.equal(payload.campaignId, 'default')
+    assert.equal(payload.event.identityKey, investorKey)
+
+    // Any change to the body, or another signer, fails verification
+    const tampered = { ...request, body: request.body.replace('"amount":100', '"amount":1000') }
+    assert.equal(await verifyDelivery(tampered, backendKey), false)
+    assert.equal(await verifyDelivery(request, investorKey), false)
+  })
+})